@@ -4,21 +4,37 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SessionProvider } from "@/context/SessionContext";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Intake from "@/pages/intake";
 import PastSessions from "@/pages/past-sessions";
+import PastSessionDetail from "@/pages/past-session-detail";
 import Session from "@/pages/session";
 import Reframe from "@/pages/reframe";
+import AuthPage from "@/pages/auth";
+import Settings from "@/pages/settings";
+import Insights from "@/pages/insights";
+import CrisisResources from "@/pages/crisis-resources";
+import Visualize from "@/pages/visualize";
+import VisualizationPlayer from "@/pages/visualization-player";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
-      <Route path="/intake" component={Intake} />
-      <Route path="/session" component={Session} />
-      <Route path="/reframe" component={Reframe} />
-      <Route path="/past-sessions" component={PastSessions} />
+      <Route path="/auth" component={AuthPage} />
+      <Route path="/crisis-resources" component={CrisisResources} />
+      <ProtectedRoute path="/intake" component={Intake} />
+      <ProtectedRoute path="/session" component={Session} />
+      <ProtectedRoute path="/reframe" component={Reframe} />
+      <ProtectedRoute path="/past-sessions" component={PastSessions} />
+      <ProtectedRoute path="/past-sessions/:id" component={PastSessionDetail} />
+      <ProtectedRoute path="/insights" component={Insights} />
+      <ProtectedRoute path="/visualize" component={Visualize} />
+      <ProtectedRoute path="/visualize/:id" component={VisualizationPlayer} />
+      <ProtectedRoute path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -27,12 +43,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <SessionProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
-      </SessionProvider>
+      <AuthProvider>
+        <SessionProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </SessionProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
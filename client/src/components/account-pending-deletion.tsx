@@ -0,0 +1,81 @@
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth, type AuthUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+/**
+ * Shown in place of any protected page while the account is waiting to be deleted
+ */
+export function AccountPendingDeletion() {
+  const { user, logoutMutation } = useAuth();
+  const { toast } = useToast();
+
+  const cancelMutation = useMutation({
+    mutationFn: async (): Promise<AuthUser> => {
+      return apiRequest("/api/account/deletion", { method: "DELETE" });
+    },
+    onSuccess: (restoredUser) => {
+      queryClient.setQueryData(["/api/auth/me"], restoredUser);
+      toast({
+        title: "Welcome Back",
+        description: "Your account and sessions have been restored.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Something Went Wrong",
+        description: "Could not cancel the deletion. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-6">
+      <Card className="glass-effect max-w-lg w-full">
+        <CardContent className="p-12 text-center">
+          <div className="w-16 h-16 bg-gradient-to-r from-primary to-secondary rounded-full flex items-center justify-center mx-auto mb-6">
+            <Trash2 className="w-8 h-8 text-white" />
+          </div>
+          <h3 className="text-2xl font-bold text-charcoal mb-4">
+            Your account is scheduled for deletion
+          </h3>
+          <p className="text-warm-gray mb-8">
+            {user?.deletionScheduledFor
+              ? `Everything will be permanently deleted on ${format(new Date(user.deletionScheduledFor), "MMMM d, yyyy")}. `
+              : ""}
+            Until then you can change your mind and keep your account.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3 justify-center">
+            <Button
+              onClick={() => cancelMutation.mutate()}
+              disabled={cancelMutation.isPending}
+              className="bg-gradient-to-r from-primary to-secondary text-white font-semibold rounded-full"
+            >
+              {cancelMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Keep My Account
+                </>
+              )}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              className="glass-effect rounded-full"
+            >
+              Log Out
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+const SCORES = Array.from({ length: 11 }, (_, score) => score);
+
+/**
+ * 0-10 picker for how distressing a thought feels right now
+ */
+export function DistressRating({
+  value,
+  onChange,
+  disabled = false,
+}: {
+  value: number | null;
+  onChange: (score: number) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-11 gap-1">
+        {SCORES.map((score) => (
+          <button
+            key={score}
+            type="button"
+            onClick={() => onChange(score)}
+            disabled={disabled}
+            aria-pressed={value === score}
+            className={`h-9 rounded-md border-2 text-sm font-medium transition-all disabled:opacity-50 ${
+              value === score
+                ? 'border-primary bg-primary text-white'
+                : 'border-gray-200 text-charcoal hover:border-primary/50'
+            }`}
+          >
+            {score}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-warm-gray">
+        <span>Not at all</span>
+        <span>Extremely</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, Loader2, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadExport, exportFormatLabels, type ExportFormat } from "@/lib/export";
+import { useToast } from "@/hooks/use-toast";
+
+interface ManagedSession {
+  id: number;
+  journalEntry: string | null;
+  beliefSummary: string | null;
+  primaryDistortions: string[];
+  createdAt: string;
+  reframingSessions: { id: number; isCompleted: boolean }[];
+}
+
+interface SessionCapDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canExport: boolean;
+  maxSessions: number;
+  /** Called once enough sessions were deleted to get back under the cap */
+  onSpaceFreed: () => void;
+}
+
+/**
+ * Lets the user pick saved sessions to export or delete when the session cap is reached
+ */
+export function SessionCapDialog({ open, onOpenChange, canExport, maxSessions, onSpaceFreed }: SessionCapDialogProps) {
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const { toast } = useToast();
+
+  // The cap is small, so one page covers every saved session
+  const { data, isLoading } = useQuery<{ sessions: ManagedSession[]; total: number }>({
+    queryKey: ["/api/sessions", "manage"],
+    queryFn: () => apiRequest(`/api/sessions?limit=50`),
+    enabled: open,
+    staleTime: 0,
+  });
+  const sessions = data?.sessions ?? [];
+
+  const deleteMutation = useMutation({
+    mutationFn: async (sessionIds: number[]) => {
+      return apiRequest("/api/sessions/bulk-delete", {
+        method: "POST",
+        body: { sessionIds },
+      });
+    },
+    onSuccess: async ({ deleted }: { deleted: number }) => {
+      setSelectedIds([]);
+      setConfirmOpen(false);
+      await queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+
+      toast({
+        title: "Sessions Deleted",
+        description: `${deleted} ${deleted === 1 ? "session was" : "sessions were"} deleted.`,
+      });
+
+      if (sessions.length - deleted < maxSessions) {
+        onSpaceFreed();
+      }
+    },
+    onError: () => {
+      setConfirmOpen(false);
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete those sessions. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSession = (id: number) => {
+    setSelectedIds((current) =>
+      current.includes(id) ? current.filter((selectedId) => selectedId !== id) : [...current, id],
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Manage Saved Sessions</DialogTitle>
+            <DialogDescription>
+              Select sessions to free up space. Deleting a session also removes its reframing conversations.
+              {canExport && " You can download them first to keep a copy."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-96 overflow-y-auto space-y-2 pr-2">
+            {isLoading && (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            )}
+            {sessions.map((session) => (
+              <label
+                key={session.id}
+                className="flex items-start space-x-3 p-3 rounded-lg border hover:bg-muted/50 cursor-pointer"
+              >
+                <Checkbox
+                  checked={selectedIds.includes(session.id)}
+                  onCheckedChange={() => toggleSession(session.id)}
+                  className="mt-1"
+                />
+                <div className="min-w-0 space-y-1">
+                  <p className="text-xs text-warm-gray">
+                    {format(new Date(session.createdAt), "MMM d, yyyy 'at' h:mm a")}
+                  </p>
+                  <p className="text-sm text-charcoal line-clamp-2">
+                    {session.journalEntry ?? session.beliefSummary}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {session.primaryDistortions.map((distortion) => (
+                      <Badge key={distortion} variant="secondary" className="text-xs">
+                        {distortion}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <DialogFooter className="flex-col sm:flex-row gap-2">
+            <Button
+              variant="ghost"
+              onClick={() =>
+                setSelectedIds(selectedIds.length === sessions.length ? [] : sessions.map((session) => session.id))
+              }
+              disabled={sessions.length === 0}
+            >
+              {selectedIds.length === sessions.length && sessions.length > 0 ? "Clear Selection" : "Select All"}
+            </Button>
+            {canExport && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={selectedIds.length === 0}>
+                    <Download className="w-4 h-4 mr-2" />
+                    Download Selected
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent>
+                  {(Object.keys(exportFormatLabels) as ExportFormat[]).map((exportFormat) => (
+                    <DropdownMenuItem key={exportFormat} onClick={() => downloadExport(exportFormat, selectedIds)}>
+                      {exportFormatLabels[exportFormat]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+            <Button
+              variant="destructive"
+              onClick={() => setConfirmOpen(true)}
+              disabled={selectedIds.length === 0 || deleteMutation.isPending}
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Selected ({selectedIds.length})
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {selectedIds.length} {selectedIds.length === 1 ? "session" : "sessions"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the journal entries, detected thoughts and reframing conversations. It can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                deleteMutation.mutate(selectedIds);
+              }}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
+import { Gauge } from "lucide-react";
+import { useTokenUsage } from "@/hooks/use-token-usage";
+
+/**
+ * Shows a gentle warning once today's AI usage passes the warning threshold
+ */
+export function TokenUsageBanner() {
+  const { data: usage } = useTokenUsage();
+
+  if (!usage || !usage.isApproachingLimit) {
+    return null;
+  }
+
+  const resetTime = new Date(usage.resetsAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+
+  return (
+    <Alert variant={usage.hasReachedLimit ? "destructive" : "default"} className="glass-effect">
+      <Gauge className="h-4 w-4" />
+      <AlertDescription className="space-y-2">
+        <p>
+          {usage.hasReachedLimit
+            ? `You've used all of today's AI guidance. It resets at ${resetTime}.`
+            : `You've used ${usage.percentUsed}% of today's AI guidance. It resets at ${resetTime}.`}
+        </p>
+        <Progress value={usage.percentUsed} className="h-2" />
+      </AlertDescription>
+    </Alert>
+  );
+}
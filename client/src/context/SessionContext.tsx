@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 
 interface DetectedThought {
+  id: number;
   thought: string;
   distortion: string;
   explanation: string;
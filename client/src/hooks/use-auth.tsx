@@ -0,0 +1,105 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export interface AuthUser {
+  id: number;
+  username: string;
+  /** Set while the account is in its deletion grace period */
+  deletedAt: string | null;
+  deletionScheduledFor: string | null;
+  plan: "free" | "paid";
+}
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+type AuthContextType = {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/auth/me"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      return apiRequest("/api/auth/login", { method: "POST", body: credentials });
+    },
+    onSuccess: (user: AuthUser) => {
+      queryClient.setQueryData(["/api/auth/me"], user);
+    },
+    onError: () => {
+      toast({
+        title: "Login Failed",
+        description: "That username and password didn't match. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      return apiRequest("/api/auth/register", { method: "POST", body: credentials });
+    },
+    onSuccess: (user: AuthUser) => {
+      queryClient.setQueryData(["/api/auth/me"], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Registration Failed",
+        description: error.message.includes("Username already exists")
+          ? "That username is taken. Please choose another."
+          : "Could not create your account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/auth/logout", { method: "POST", credentials: "include" });
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+    },
+    onSuccess: () => {
+      // Drop every cached query so the next user never sees this user's data
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/me"], null);
+      localStorage.removeItem("analysisResult");
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
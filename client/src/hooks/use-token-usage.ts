@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+
+export interface TokenUsageSummary {
+  tokensUsed: number;
+  dailyLimit: number;
+  remaining: number;
+  percentUsed: number;
+  warningThresholdPercentage: number;
+  isApproachingLimit: boolean;
+  hasReachedLimit: boolean;
+  resetsAt: string;
+}
+
+export const TOKEN_USAGE_QUERY_KEY = ["/api/usage/today"];
+
+export function useTokenUsage() {
+  return useQuery<TokenUsageSummary>({
+    queryKey: TOKEN_USAGE_QUERY_KEY,
+  });
+}
+
+/**
+ * Refresh the usage summary after any request that spent tokens
+ */
+export function refreshTokenUsage() {
+  return queryClient.invalidateQueries({ queryKey: TOKEN_USAGE_QUERY_KEY });
+}
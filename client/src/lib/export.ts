@@ -0,0 +1,22 @@
+export type ExportFormat = "json" | "markdown" | "pdf";
+
+export const exportFormatLabels: Record<ExportFormat, string> = {
+  json: "JSON",
+  markdown: "Markdown",
+  pdf: "PDF",
+};
+
+/**
+ * Start a browser download of the user's data. The server sets the filename
+ * and the session cookie authenticates the request.
+ */
+export function downloadExport(format: ExportFormat, sessionIds?: number[]) {
+  const params = new URLSearchParams({ format });
+  if (sessionIds && sessionIds.length > 0) {
+    params.set("sessionIds", sessionIds.join(","));
+  }
+
+  const link = document.createElement("a");
+  link.href = `/api/export?${params.toString()}`;
+  link.click();
+}
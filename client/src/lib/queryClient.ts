@@ -1,9 +1,29 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+/**
+ * Error thrown for non-2xx responses, keeping the status and parsed JSON body
+ * so callers can render structured errors (rate limits, session caps)
+ */
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(status: number, text: string) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+    this.status = status;
+    try {
+      this.data = JSON.parse(text);
+    } catch {
+      this.data = null;
+    }
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
@@ -28,6 +48,58 @@ export async function apiRequest(
   return await res.json();
 }
 
+/**
+ * POST to a server-sent-events endpoint and hand each event to onEvent as it
+ * arrives. Resolves once the server closes the stream.
+ */
+export async function apiStream(
+  url: string,
+  options: {
+    body?: any;
+    onEvent: (event: string, data: any) => void;
+  }
+): Promise<void> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(options.body ?? {}),
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) {
+    throw new Error("Streaming is not supported by this browser");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    // Events are separated by a blank line
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      block.split("\n").forEach((line) => {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      });
+      if (data.length > 0) {
+        options.onEvent(event, JSON.parse(data.join("\n")));
+      }
+    }
+
+    if (done) return;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
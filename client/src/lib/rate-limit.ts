@@ -0,0 +1,64 @@
+import { ApiError } from "./queryClient";
+
+export interface RateLimitErrorBody {
+  message: string;
+  code: "RATE_LIMITED";
+  rule: string;
+  scope: "user" | "ip";
+  limit: number;
+  windowSeconds: number;
+  retryAfterSeconds: number;
+}
+
+export function getRateLimitError(error: unknown): RateLimitErrorBody | null {
+  if (error instanceof ApiError && error.status === 429 && error.data?.code === "RATE_LIMITED") {
+    return error.data as RateLimitErrorBody;
+  }
+  return null;
+}
+
+const DAILY_LIMIT_MESSAGE = "Daily AI usage limit reached";
+
+/**
+ * The per-user daily AI token cap, whether it came back as a 429 (with a
+ * `message` or `error` body) or as a streamed error event
+ */
+export function isDailyLimitError(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    const message = error.data?.message ?? error.data?.error;
+    return error.status === 429 && typeof message === "string" && message.includes(DAILY_LIMIT_MESSAGE);
+  }
+  return error instanceof Error && error.message.includes(DAILY_LIMIT_MESSAGE);
+}
+
+export const dailyLimitToast = {
+  title: "Daily Limit Reached",
+  description: "You've reached your daily AI usage limit. Please try again tomorrow.",
+  variant: "destructive" as const,
+};
+
+/**
+ * Human-friendly wait time, e.g. "about 45 seconds" or "about 3 minutes"
+ */
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) {
+    return `about ${seconds} second${seconds === 1 ? "" : "s"}`;
+  }
+  if (seconds < 3600) {
+    const minutes = Math.ceil(seconds / 60);
+    return `about ${minutes} minute${minutes === 1 ? "" : "s"}`;
+  }
+  const hours = Math.ceil(seconds / 3600);
+  return `about ${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+/**
+ * Toast content for a rate-limited request
+ */
+export function rateLimitToast(rateLimit: RateLimitErrorBody) {
+  return {
+    title: "Taking a Short Pause",
+    description: `${rateLimit.message} You can try again in ${formatRetryAfter(rateLimit.retryAfterSeconds)}.`,
+    variant: "destructive" as const,
+  };
+}
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Redirect, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+
+const loginFormSchema = z.object({
+  username: z.string().min(1, "Please enter your username"),
+  password: z.string().min(1, "Please enter your password"),
+});
+
+const registerFormSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+type AuthFormData = z.infer<typeof registerFormSchema>;
+
+export default function AuthPage() {
+  const [, setLocation] = useLocation();
+  const [mode, setMode] = useState<"login" | "register">("login");
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  const form = useForm<AuthFormData>({
+    resolver: zodResolver(mode === "login" ? loginFormSchema : registerFormSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+    },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  const activeMutation = mode === "login" ? loginMutation : registerMutation;
+
+  const onSubmit = (data: AuthFormData) => {
+    activeMutation.mutate(data, {
+      onSuccess: () => setLocation("/"),
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Header */}
+      <div className="w-full px-6 py-4 glass-effect">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => setLocation("/")}
+            className="flex items-center space-x-2 text-warm-gray hover:text-charcoal"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back</span>
+          </Button>
+          <h2 className="text-xl font-semibold text-charcoal">
+            {mode === "login" ? "Welcome Back" : "Create Your Account"}
+          </h2>
+        </div>
+      </div>
+
+      {/* Auth Form */}
+      <main className="flex-1 flex items-center justify-center px-6 py-12">
+        <div className="max-w-md mx-auto w-full">
+          <Card className="glass-effect shadow-xl">
+            <CardContent className="p-8 md:p-10">
+              <div className="text-center mb-8">
+                <h2 className="text-3xl font-bold text-charcoal mb-3">
+                  {mode === "login" ? "Log in" : "Sign up"}
+                </h2>
+                <p className="text-warm-gray leading-relaxed">
+                  Your journal entries and reframing sessions are private to your account.
+                </p>
+              </div>
+
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-charcoal">Username</FormLabel>
+                        <FormControl>
+                          <Input {...field} autoComplete="username" className="bg-white/80" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-charcoal">Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="password"
+                            autoComplete={mode === "login" ? "current-password" : "new-password"}
+                            className="bg-white/80"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="submit"
+                    disabled={activeMutation.isPending}
+                    className="w-full px-8 py-3 bg-gradient-to-r from-primary to-secondary text-white font-semibold rounded-full hover:shadow-lg transition-all duration-200"
+                  >
+                    {activeMutation.isPending ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : mode === "login" ? (
+                      "Log In"
+                    ) : (
+                      "Create Account"
+                    )}
+                  </Button>
+                </form>
+              </Form>
+
+              <p className="text-sm text-warm-gray text-center mt-6">
+                {mode === "login" ? "New to Mindful Reframe?" : "Already have an account?"}{" "}
+                <button
+                  type="button"
+                  onClick={() => {
+                    setMode(mode === "login" ? "register" : "login");
+                    form.clearErrors();
+                  }}
+                  className="text-primary font-medium hover:underline"
+                >
+                  {mode === "login" ? "Create an account" : "Log in"}
+                </button>
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
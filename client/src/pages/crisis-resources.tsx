@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, ExternalLink, HeartHandshake, Phone } from "lucide-react";
+import { RULES } from "@shared/rules";
+import { CRISIS_REGIONS, INTERNATIONAL_RESOURCES, getCrisisRegion } from "@shared/crisis";
+
+// ?region=GB wins, then the country in the browser locale, e.g. en-AU
+function initialRegion(): string {
+  const requested = new URLSearchParams(window.location.search).get("region");
+  const fromLocale = navigator.language?.split("-")[1];
+  return getCrisisRegion(requested || fromLocale).code;
+}
+
+export default function CrisisResources() {
+  const [regionCode, setRegionCode] = useState(initialRegion);
+  const region = getCrisisRegion(regionCode);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <div className="w-full px-6 py-4 glass-effect">
+        <div className="max-w-2xl mx-auto flex items-center justify-between">
+          <Link href="/">
+            <Button
+              variant="ghost"
+              className="flex items-center space-x-2 text-warm-gray hover:text-charcoal"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Home</span>
+            </Button>
+          </Link>
+          <h2 className="text-xl font-semibold text-charcoal">Support Resources</h2>
+        </div>
+      </div>
+
+      <main className="flex-1 px-6 py-12">
+        <div className="max-w-2xl mx-auto w-full space-y-6">
+          <Card className="glass-effect">
+            <CardContent className="p-6 space-y-3">
+              <div className="flex items-center space-x-3">
+                <HeartHandshake className="w-8 h-8 text-primary" />
+                <h1 className="text-2xl font-semibold text-charcoal">You don't have to go through this alone</h1>
+              </div>
+              <p className="text-warm-gray">{RULES.AI.CRISIS_DETECTION.responseTemplate}</p>
+            </CardContent>
+          </Card>
+
+          <Alert className="border-red-200 bg-red-50">
+            <Phone className="h-4 w-4 text-red-600" />
+            <AlertDescription className="text-red-800">
+              If you are in immediate danger, call {region.emergencyNumber} now.
+            </AlertDescription>
+          </Alert>
+
+          <Card className="glass-effect">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle className="text-charcoal">Talk to someone now</CardTitle>
+              <Select value={regionCode} onValueChange={setRegionCode}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[...CRISIS_REGIONS, INTERNATIONAL_RESOURCES].map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {region.helplines.map((helpline) => (
+                <div key={helpline.name} className="p-4 rounded-lg bg-white/60 border border-white/40">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-semibold text-charcoal">{helpline.name}</p>
+                      <p className="text-charcoal">{helpline.contact}</p>
+                      {helpline.hours && <p className="text-sm text-warm-gray">{helpline.hours}</p>}
+                    </div>
+                    {helpline.url && (
+                      <a
+                        href={helpline.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center space-x-1 text-sm text-primary hover:underline shrink-0"
+                      >
+                        <span>Website</span>
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {region.code !== INTERNATIONAL_RESOURCES.code && (
+                <p className="text-sm text-warm-gray">
+                  Somewhere else? <a href={INTERNATIONAL_RESOURCES.helplines[0].url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">Find a helpline in your country</a>.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <p className="text-sm text-warm-gray text-center">
+            Reframe is a self-help journaling tool and can't provide crisis support or replace professional care.
+          </p>
+        </div>
+      </main>
+    </div>
+  );
+}
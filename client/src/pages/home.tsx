@@ -1,9 +1,12 @@
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Brain, Heart, Eye, User } from "lucide-react";
+import { Brain, Heart, Eye, User, LogOut, Settings, BarChart3, Sparkles } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function Home() {
+  const { user, logoutMutation } = useAuth();
+
   return (
     <div className="min-h-screen flex flex-col">
       {/* Navigation Header */}
@@ -15,9 +18,45 @@ export default function Home() {
             </div>
             <h1 className="text-xl font-semibold text-charcoal">Mindful Reframe</h1>
           </div>
-          <Button variant="ghost" size="sm" className="text-warm-gray hover:text-charcoal">
-            <User className="h-6 w-6" />
-          </Button>
+          {user ? (
+            <div className="flex items-center space-x-2">
+              <span className="flex items-center space-x-1 text-sm text-warm-gray">
+                <User className="h-5 w-5" />
+                <span>{user.username}</span>
+              </span>
+              <Link href="/insights">
+                <Button variant="ghost" size="sm" className="text-warm-gray hover:text-charcoal">
+                  <BarChart3 className="h-5 w-5" />
+                </Button>
+              </Link>
+              <Link href="/visualize">
+                <Button variant="ghost" size="sm" className="text-warm-gray hover:text-charcoal">
+                  <Sparkles className="h-5 w-5" />
+                </Button>
+              </Link>
+              <Link href="/settings">
+                <Button variant="ghost" size="sm" className="text-warm-gray hover:text-charcoal">
+                  <Settings className="h-5 w-5" />
+                </Button>
+              </Link>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                className="text-warm-gray hover:text-charcoal"
+              >
+                <LogOut className="h-5 w-5" />
+              </Button>
+            </div>
+          ) : (
+            <Link href="/auth">
+              <Button variant="ghost" size="sm" className="text-warm-gray hover:text-charcoal">
+                <User className="h-6 w-6 mr-1" />
+                Log In
+              </Button>
+            </Link>
+          )}
         </div>
       </nav>
 
@@ -0,0 +1,272 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ArrowLeft, BarChart3, Brain, Loader2, Lock, TrendingDown } from "lucide-react";
+import { RULES } from "@shared/rules";
+
+interface Insights {
+  extended: boolean;
+  since: string | null;
+  journalSessions: number;
+  reframingSessions: number;
+  completedReframingSessions: number;
+  averageTurnsToCompletion: number | null;
+  distortionFrequencies: { distortion: string; count: number }[];
+  methodOutcomes: {
+    reframingMethod: string;
+    started: number;
+    completed: number;
+    completionRate: number;
+    averageTurnsToCompletion: number | null;
+  }[];
+  weekly: {
+    weekStart: string;
+    reframingSessions: number;
+    completed: number;
+    averageTurnsToCompletion: number | null;
+    averageDistressBefore: number | null;
+    averageDistressAfter: number | null;
+    averageDistressChange: number | null;
+  }[];
+}
+
+const reframingMethodNames: Record<string, string> = {
+  evidenceCheck: "Evidence Check",
+  alternativePerspectives: "Alternative Views",
+  balancedThinking: "Balanced Thinking",
+  compassionateSelf: "Self-Compassion",
+  actionOriented: "Action Focus",
+};
+
+const distortionChartConfig = {
+  count: { label: "Times detected", color: "var(--primary)" },
+} satisfies ChartConfig;
+
+const methodChartConfig = {
+  completionPercent: { label: "Completed %", color: "var(--secondary)" },
+} satisfies ChartConfig;
+
+const distressChartConfig = {
+  averageDistressBefore: { label: "Before", color: "var(--accent)" },
+  averageDistressAfter: { label: "After", color: "var(--primary)" },
+} satisfies ChartConfig;
+
+const turnsChartConfig = {
+  averageTurnsToCompletion: { label: "Messages to complete", color: "var(--secondary)" },
+} satisfies ChartConfig;
+
+const StatCard = ({ label, value }: { label: string; value: string }) => (
+  <Card className="glass-effect">
+    <CardContent className="p-4 text-center">
+      <p className="text-2xl font-semibold text-charcoal">{value}</p>
+      <p className="text-sm text-warm-gray">{label}</p>
+    </CardContent>
+  </Card>
+);
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <p className="text-sm text-warm-gray italic py-8 text-center">{message}</p>
+);
+
+export default function InsightsPage() {
+  const { data: insights, isLoading, isError } = useQuery<Insights>({
+    queryKey: ["/api/insights"],
+  });
+
+  const methodData = insights?.methodOutcomes.map((outcome) => ({
+    ...outcome,
+    name: reframingMethodNames[outcome.reframingMethod] || outcome.reframingMethod,
+    completionPercent: Math.round(outcome.completionRate * 100),
+  })) ?? [];
+  const weekLabel = (weekStart: string) => format(new Date(`${weekStart}T00:00:00`), "MMM d");
+  const ratedWeeks = insights?.weekly.filter((week) => week.averageDistressBefore !== null) ?? [];
+  const completedWeeks = insights?.weekly.filter((week) => week.averageTurnsToCompletion !== null) ?? [];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <div className="w-full px-6 py-4 glass-effect">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Link href="/">
+            <Button
+              variant="ghost"
+              className="flex items-center space-x-2 text-warm-gray hover:text-charcoal"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back</span>
+            </Button>
+          </Link>
+          <h2 className="text-xl font-semibold text-charcoal">Insights</h2>
+        </div>
+      </div>
+
+      <main className="flex-1 px-6 py-12">
+        <div className="max-w-4xl mx-auto w-full space-y-6">
+          {isLoading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {isError && (
+            <Card className="glass-effect">
+              <CardContent className="p-8 text-center text-warm-gray">
+                Could not load your insights. Please try again.
+              </CardContent>
+            </Card>
+          )}
+
+          {insights && (
+            <>
+              {!insights.extended && (
+                <Alert className="glass-effect">
+                  <Lock className="h-4 w-4" />
+                  <AlertDescription>
+                    Showing the last {RULES.STORAGE.PREMIUM_FEATURES.freeAnalyticsWindowDays} days.
+                    Extended analytics with your full history are part of the paid plan.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <StatCard label="Journal sessions" value={insights.journalSessions.toString()} />
+                <StatCard label="Reframings started" value={insights.reframingSessions.toString()} />
+                <StatCard label="Reframings completed" value={insights.completedReframingSessions.toString()} />
+                <StatCard
+                  label="Avg. messages to complete"
+                  value={insights.averageTurnsToCompletion?.toString() ?? "–"}
+                />
+              </div>
+
+              <Card className="glass-effect">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2 text-charcoal">
+                    <Brain className="w-5 h-5 text-primary" />
+                    <span>Thinking Patterns</span>
+                  </CardTitle>
+                  <p className="text-sm text-warm-gray">How often each cognitive distortion showed up in your journal.</p>
+                </CardHeader>
+                <CardContent>
+                  {insights.distortionFrequencies.length === 0 ? (
+                    <EmptyChart message="No distortions detected yet." />
+                  ) : (
+                    <ChartContainer config={distortionChartConfig} className="aspect-auto h-72 w-full">
+                      <BarChart data={insights.distortionFrequencies} layout="vertical" margin={{ left: 24 }}>
+                        <CartesianGrid horizontal={false} />
+                        <XAxis type="number" allowDecimals={false} />
+                        <YAxis type="category" dataKey="distortion" width={140} tickLine={false} axisLine={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="glass-effect">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2 text-charcoal">
+                    <BarChart3 className="w-5 h-5 text-secondary" />
+                    <span>Reframing Methods</span>
+                  </CardTitle>
+                  <p className="text-sm text-warm-gray">How often you finish a reframe with each method.</p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {methodData.length === 0 ? (
+                    <EmptyChart message="No reframing sessions yet." />
+                  ) : (
+                    <>
+                      <ChartContainer config={methodChartConfig} className="aspect-auto h-64 w-full">
+                        <BarChart data={methodData}>
+                          <CartesianGrid vertical={false} />
+                          <XAxis dataKey="name" tickLine={false} axisLine={false} />
+                          <YAxis domain={[0, 100]} unit="%" />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <Bar dataKey="completionPercent" fill="var(--color-completionPercent)" radius={4} />
+                        </BarChart>
+                      </ChartContainer>
+                      <div className="divide-y divide-white/40 text-sm">
+                        {methodData.map((method) => (
+                          <div key={method.reframingMethod} className="flex justify-between py-2">
+                            <span className="text-charcoal">{method.name}</span>
+                            <span className="text-warm-gray">
+                              {method.completed} of {method.started} completed
+                              {method.averageTurnsToCompletion !== null && ` • ${method.averageTurnsToCompletion} messages on average`}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="glass-effect">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2 text-charcoal">
+                    <TrendingDown className="w-5 h-5 text-primary" />
+                    <span>Distress Over Time</span>
+                  </CardTitle>
+                  <p className="text-sm text-warm-gray">Average distress before and after reframing, by week.</p>
+                </CardHeader>
+                <CardContent>
+                  {ratedWeeks.length === 0 ? (
+                    <EmptyChart message="Rate your distress when you reframe a thought to see how it changes." />
+                  ) : (
+                    <ChartContainer config={distressChartConfig} className="aspect-auto h-64 w-full">
+                      <LineChart data={ratedWeeks}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="weekStart" tickFormatter={weekLabel} tickLine={false} axisLine={false} />
+                        <YAxis domain={[0, 10]} />
+                        <ChartTooltip content={<ChartTooltipContent labelFormatter={weekLabel} />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        <Line dataKey="averageDistressBefore" stroke="var(--color-averageDistressBefore)" strokeWidth={2} />
+                        <Line dataKey="averageDistressAfter" stroke="var(--color-averageDistressAfter)" strokeWidth={2} connectNulls />
+                      </LineChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="glass-effect">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2 text-charcoal">
+                    <BarChart3 className="w-5 h-5 text-secondary" />
+                    <span>Messages to Complete a Reframe</span>
+                  </CardTitle>
+                  <p className="text-sm text-warm-gray">Average conversation length of completed reframes, by week.</p>
+                </CardHeader>
+                <CardContent>
+                  {completedWeeks.length === 0 ? (
+                    <EmptyChart message="Complete a reframing session to see this chart." />
+                  ) : (
+                    <ChartContainer config={turnsChartConfig} className="aspect-auto h-64 w-full">
+                      <BarChart data={completedWeeks}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="weekStart" tickFormatter={weekLabel} tickLine={false} axisLine={false} />
+                        <YAxis allowDecimals={false} />
+                        <ChartTooltip content={<ChartTooltipContent labelFormatter={weekLabel} />} />
+                        <Bar dataKey="averageTurnsToCompletion" fill="var(--color-averageTurnsToCompletion)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -14,7 +14,6 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 
 const intakeFormSchema = z.object({
-  userId: z.number().optional(),
   question1: z.string().min(10, "Please provide a thoughtful response (at least 10 characters)"),
   question2: z.string().min(10, "Please provide a thoughtful response (at least 10 characters)"),
   question3: z.string().min(10, "Please provide a thoughtful response (at least 10 characters)"),
@@ -32,7 +31,6 @@ export default function Intake() {
   const form = useForm<IntakeFormData>({
     resolver: zodResolver(intakeFormSchema),
     defaultValues: {
-      userId: 1, // For demo purposes, using user ID 1
       question1: "",
       question2: "",
       question3: "",
@@ -43,8 +41,10 @@ export default function Intake() {
 
   const createIntakeMutation = useMutation({
     mutationFn: async (data: IntakeFormData) => {
-      const response = await apiRequest("POST", "/api/intake", data);
-      return response.json();
+      return apiRequest("/api/intake", {
+        method: "POST",
+        body: data
+      });
     },
     onSuccess: () => {
       setShowSuccess(true);
@@ -65,7 +65,7 @@ export default function Intake() {
   const watchedValues = form.watch();
   const filledCount = Object.values(watchedValues).filter(
     (value) => typeof value === "string" && value.trim().length > 0
-  ).length - 1; // Subtract 1 for userId
+  ).length;
   const progress = (filledCount / 5) * 100;
 
   const onSubmit = (data: IntakeFormData) => {
@@ -0,0 +1,376 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, BookOpen, CheckCircle, Lightbulb, Loader2, MessageCircle, Play, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { RULES } from "@shared/rules";
+
+interface DetectedThought {
+  id: number;
+  thought: string;
+  distortion: string;
+  explanation: string;
+}
+
+interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
+}
+
+interface ReframingSessionDetail {
+  id: number;
+  selectedThought: string;
+  distortionType: string;
+  reframingMethod: string;
+  finalReframedThought: string | null;
+  isCompleted: boolean;
+  turnCount: number;
+  distressScoreBefore: number | null;
+  distressScoreAfter: number | null;
+  createdAt: string;
+  completedAt: string | null;
+  chatHistory: ChatMessage[];
+}
+
+interface SessionDetail {
+  id: number;
+  /** Null when the session was reduced to its metadata */
+  journalEntry: string | null;
+  beliefSummary: string | null;
+  primaryDistortions: string[];
+  flaggedForFullStorage: boolean;
+  createdAt: string;
+  detectedThoughts: DetectedThought[];
+  reframingSessions: ReframingSessionDetail[];
+}
+
+const reframingMethodNames: Record<string, string> = {
+  evidenceCheck: "Evidence Check",
+  alternativePerspectives: "Alternative Views",
+  balancedThinking: "Balanced Thinking",
+  compassionateSelf: "Self-Compassion",
+  actionOriented: "Action Focus",
+};
+
+const REPLAY_STEP_MS = 1200;
+
+// Chat transcript with an optional step-by-step replay
+const Transcript = ({ messages, emptyMessage }: { messages: ChatMessage[]; emptyMessage: string }) => {
+  const [visibleCount, setVisibleCount] = useState(messages.length);
+  const isReplaying = visibleCount < messages.length;
+
+  useEffect(() => {
+    if (!isReplaying) return;
+    const timer = setTimeout(() => setVisibleCount((count) => count + 1), REPLAY_STEP_MS);
+    return () => clearTimeout(timer);
+  }, [visibleCount, isReplaying]);
+
+  if (messages.length === 0) {
+    return <p className="text-sm text-warm-gray italic">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isReplaying}
+          onClick={() => setVisibleCount(1)}
+          className="glass-effect"
+        >
+          <Play className="w-3 h-3 mr-1" />
+          {isReplaying ? "Replaying..." : "Replay Conversation"}
+        </Button>
+      </div>
+      <div className="space-y-4">
+        {messages.slice(0, visibleCount).map((message, index) => message.role === 'system' ? (
+          <p key={index} className="text-center text-xs text-warm-gray italic">
+            {message.content}
+          </p>
+        ) : (
+          <div
+            key={index}
+            className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+          >
+            <div
+              className={`max-w-[80%] p-3 rounded-lg ${
+                message.role === 'user'
+                  ? 'bg-primary text-white'
+                  : 'bg-white text-charcoal shadow-sm border'
+              }`}
+            >
+              <p className="text-sm">{message.content}</p>
+              {message.role === 'assistant' && (
+                <p className="text-xs opacity-70 mt-1">Reframe</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default function PastSessionDetail({ params }: { params: { id: string } }) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { data: session, isLoading, isError } = useQuery<SessionDetail>({
+    queryKey: ["/api/sessions/detail", params.id],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest(`/api/sessions/${params.id}`, { method: "DELETE" });
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.removeQueries({ queryKey: ["/api/sessions/detail", params.id] });
+      toast({
+        title: "Session Deleted",
+        description: "This session and its reframing conversations were removed.",
+      });
+      setLocation("/past-sessions");
+    },
+    onError: () => {
+      toast({
+        title: "Delete Failed",
+        description: "Could not delete this session. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const flagMutation = useMutation({
+    mutationFn: async (flaggedForFullStorage: boolean) => {
+      return apiRequest(`/api/sessions/${params.id}`, {
+        method: "PATCH",
+        body: { flaggedForFullStorage },
+      });
+    },
+    onSuccess: ({ flaggedForFullStorage }: { flaggedForFullStorage: boolean }) => {
+      queryClient.setQueryData<SessionDetail>(["/api/sessions/detail", params.id], (current) =>
+        current ? { ...current, flaggedForFullStorage } : current,
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+    },
+    onError: () => {
+      toast({
+        title: "Update Failed",
+        description: "Could not update this session. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <div className="w-full px-6 py-4 glass-effect">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Link href="/past-sessions">
+            <Button
+              variant="ghost"
+              className="flex items-center space-x-2 text-warm-gray hover:text-charcoal"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back</span>
+            </Button>
+          </Link>
+          <h2 className="text-xl font-semibold text-charcoal">Session Details</h2>
+        </div>
+      </div>
+
+      <main className="flex-1 px-6 py-12">
+        <div className="max-w-4xl mx-auto w-full space-y-6">
+          {isLoading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {isError && (
+            <Card className="glass-effect">
+              <CardContent className="p-8 text-center text-warm-gray">
+                This session couldn't be found.
+              </CardContent>
+            </Card>
+          )}
+
+          {session && (
+            <>
+              {/* Journal Entry */}
+              <Card className="glass-effect">
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2 text-charcoal">
+                    <BookOpen className="w-5 h-5 text-primary" />
+                    <span>Journal Entry</span>
+                  </CardTitle>
+                  <p className="text-sm text-warm-gray">
+                    {format(new Date(session.createdAt), "EEEE, MMMM d, yyyy 'at' h:mm a")}
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {session.journalEntry !== null ? (
+                    <p className="text-charcoal leading-relaxed whitespace-pre-line">{session.journalEntry}</p>
+                  ) : (
+                    <div className="space-y-3">
+                      <p className="text-sm text-warm-gray italic">
+                        Only a summary of this session was kept.
+                      </p>
+                      {session.beliefSummary && (
+                        <p className="text-charcoal leading-relaxed">{session.beliefSummary}</p>
+                      )}
+                      <div className="flex flex-wrap gap-2">
+                        {session.primaryDistortions.map((distortion) => (
+                          <Badge key={distortion} variant="secondary" className="text-xs">
+                            {distortion}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {RULES.STORAGE.DEFAULT_STORAGE.allowUserToFlagForFullStorage && (
+                    <div className="flex items-center justify-between gap-4 p-4 bg-white/60 border border-white/40 rounded-xl">
+                      <div className="space-y-1">
+                        <Label htmlFor="keep-session" className="text-charcoal font-semibold">Keep this session</Label>
+                        <p className="text-xs text-warm-gray">
+                          {session.journalEntry !== null
+                            ? "Keep the full entry and conversations instead of just a summary, and exempt it from automatic cleanup."
+                            : "Exempt this summary from automatic cleanup."}
+                        </p>
+                      </div>
+                      <Switch
+                        id="keep-session"
+                        checked={session.flaggedForFullStorage}
+                        disabled={flagMutation.isPending}
+                        onCheckedChange={(checked) => flagMutation.mutate(checked)}
+                      />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Detected Thoughts */}
+              {session.detectedThoughts.length > 0 && (
+                <Card className="glass-effect">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2 text-charcoal">
+                      <Lightbulb className="w-5 h-5 text-secondary" />
+                      <span>Thoughts Identified</span>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {session.detectedThoughts.map((thought, index) => (
+                      <div key={index} className="p-4 border border-white/40 rounded-xl">
+                        <Badge variant="secondary" className="text-xs mb-3">
+                          {thought.distortion}
+                        </Badge>
+                        <blockquote className="text-charcoal font-medium mb-2 italic">
+                          "{thought.thought}"
+                        </blockquote>
+                        <p className="text-warm-gray text-sm leading-relaxed">{thought.explanation}</p>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Reframing Sessions */}
+              {session.reframingSessions.map((reframing) => (
+                <Card key={reframing.id} className="glass-effect">
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between text-charcoal">
+                      <div className="flex items-center space-x-2">
+                        <MessageCircle className="w-5 h-5 text-primary" />
+                        <span>Reframing: {reframingMethodNames[reframing.reframingMethod] || reframing.reframingMethod}</span>
+                      </div>
+                      {reframing.isCompleted && (
+                        <Badge className="bg-green-100 text-green-800">
+                          <CheckCircle className="w-3 h-3 mr-1" />
+                          Complete
+                        </Badge>
+                      )}
+                    </CardTitle>
+                    <p className="text-charcoal italic">"{reframing.selectedThought}"</p>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <Transcript
+                      messages={reframing.chatHistory}
+                      emptyMessage={session.journalEntry === null
+                        ? "Only the outcome of this conversation was kept."
+                        : "No messages were exchanged in this session."}
+                    />
+
+                    {reframing.finalReframedThought && (
+                      <Card className="bg-green-50 border-green-200">
+                        <CardContent className="p-4">
+                          <h4 className="font-semibold text-green-800 mb-2">Your Reframed Thought:</h4>
+                          <p className="text-green-700 italic">"{reframing.finalReframedThought}"</p>
+                        </CardContent>
+                      </Card>
+                    )}
+
+                    {reframing.distressScoreBefore !== null && (
+                      <p className="text-sm text-warm-gray">
+                        Distress: {reframing.distressScoreBefore}/10 before
+                        {reframing.distressScoreAfter !== null && <>, {reframing.distressScoreAfter}/10 after</>}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+
+              <div className="flex justify-center pt-4">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" className="glass-effect text-destructive hover:text-destructive">
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete Session
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this session?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This permanently removes the journal entry, detected thoughts and reframing conversations. It can't be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => deleteMutation.mutate()}
+                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                      >
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,157 @@
+import { useEffect, useRef, useState } from "react";
 import { Link } from "wouter";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { ArrowLeft, Archive } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Archive, Bookmark, CheckCircle, ChevronRight, Loader2, MessageCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ReframingSummary {
+  id: number;
+  selectedThought: string;
+  distortionType: string;
+  reframingMethod: string;
+  finalReframedThought: string | null;
+  isCompleted: boolean;
+  turnCount: number;
+  distressScoreBefore: number | null;
+  distressScoreAfter: number | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+interface SessionListItem {
+  id: number;
+  journalEntry: string | null;
+  beliefSummary: string | null;
+  primaryDistortions: string[];
+  flaggedForFullStorage: boolean;
+  createdAt: string;
+  reframingSessions: ReframingSummary[];
+}
+
+interface SessionPage {
+  sessions: SessionListItem[];
+  total: number;
+  nextOffset: number | null;
+}
+
+interface SessionFilters {
+  from: string;
+  to: string;
+  distortion: string;
+}
+
+const PAGE_SIZE = 10;
+const ALL_DISTORTIONS = "all";
+
+function buildQueryString(filters: SessionFilters, offset: number) {
+  const params = new URLSearchParams({
+    limit: PAGE_SIZE.toString(),
+    offset: offset.toString(),
+  });
+
+  // Date inputs are local calendar days; send the full day in UTC
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.distortion !== ALL_DISTORTIONS) params.set("distortion", filters.distortion);
+
+  return params.toString();
+}
+
+const SessionCard = ({ session }: { session: SessionListItem }) => {
+  const completedCount = session.reframingSessions.filter((reframing) => reframing.isCompleted).length;
+
+  return (
+    <Link href={`/past-sessions/${session.id}`}>
+      <Card className="glass-effect glass-hover cursor-pointer">
+        <CardContent className="p-6">
+          <div className="flex items-start justify-between gap-4">
+            <div className="space-y-3 min-w-0">
+              <p className="flex items-center text-sm text-warm-gray">
+                {format(new Date(session.createdAt), "EEEE, MMMM d, yyyy 'at' h:mm a")}
+                {session.flaggedForFullStorage && <Bookmark className="w-3 h-3 ml-2 text-primary" />}
+              </p>
+              <p className={`line-clamp-2 ${session.journalEntry ? "text-charcoal" : "text-warm-gray italic"}`}>
+                {session.journalEntry ?? session.beliefSummary ?? "Only a summary of this session was kept."}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {session.primaryDistortions.map((distortion) => (
+                  <Badge key={distortion} variant="secondary" className="text-xs">
+                    {distortion}
+                  </Badge>
+                ))}
+              </div>
+              {session.reframingSessions.length > 0 && (
+                <p className="flex items-center text-xs text-warm-gray">
+                  {completedCount > 0 ? (
+                    <CheckCircle className="w-3 h-3 mr-1 text-green-600" />
+                  ) : (
+                    <MessageCircle className="w-3 h-3 mr-1" />
+                  )}
+                  {completedCount} of {session.reframingSessions.length} reframing
+                  {session.reframingSessions.length === 1 ? " session" : " sessions"} completed
+                </p>
+              )}
+            </div>
+            <ChevronRight className="w-5 h-5 text-warm-gray shrink-0" />
+          </div>
+        </CardContent>
+      </Card>
+    </Link>
+  );
+};
 
 export default function PastSessions() {
+  const [filters, setFilters] = useState<SessionFilters>({
+    from: "",
+    to: "",
+    distortion: ALL_DISTORTIONS,
+  });
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  const { data: distortions = [] } = useQuery<string[]>({
+    queryKey: ["/api/sessions/distortions"],
+  });
+
+  const {
+    data,
+    isLoading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/sessions", filters],
+    queryFn: ({ pageParam }): Promise<SessionPage> =>
+      apiRequest(`/api/sessions?${buildQueryString(filters, pageParam)}`),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage: SessionPage) => lastPage.nextOffset ?? undefined,
+  });
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const sessions = data?.pages.flatMap((page) => page.sessions) ?? [];
+  const total = data?.pages[0]?.total ?? 0;
+  const hasFilters = filters.from !== "" || filters.to !== "" || filters.distortion !== ALL_DISTORTIONS;
+
   return (
     <div className="min-h-screen flex flex-col">
       <div className="w-full px-6 py-4 glass-effect">
@@ -21,26 +169,133 @@ export default function PastSessions() {
         </div>
       </div>
 
-      <main className="flex-1 flex items-center justify-center px-6 py-12">
-        <div className="max-w-2xl mx-auto text-center">
+      <main className="flex-1 px-6 py-12">
+        <div className="max-w-4xl mx-auto w-full space-y-6">
+          {/* Filters */}
           <Card className="glass-effect">
-            <CardContent className="p-12">
-              <div className="w-16 h-16 bg-gradient-to-r from-primary to-secondary rounded-full flex items-center justify-center mx-auto mb-6">
-                <Archive className="w-8 h-8 text-white" />
-              </div>
-              <h3 className="text-2xl font-bold text-charcoal mb-4">
-                No sessions yet
-              </h3>
-              <p className="text-warm-gray text-lg mb-8">
-                Your reframing journey starts with your first session. Ready to begin transforming your thoughts?
-              </p>
-              <Link href="/session">
-                <Button className="px-8 py-3 bg-gradient-to-r from-primary to-secondary text-white font-semibold rounded-full hover:shadow-lg hover:scale-105 transition-all duration-200">
-                  Start Your First Session
+            <CardContent className="p-6">
+              <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="from" className="text-charcoal">From</Label>
+                  <Input
+                    id="from"
+                    type="date"
+                    value={filters.from}
+                    max={filters.to || undefined}
+                    onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                    className="bg-white/80"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="to" className="text-charcoal">To</Label>
+                  <Input
+                    id="to"
+                    type="date"
+                    value={filters.to}
+                    min={filters.from || undefined}
+                    onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                    className="bg-white/80"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-charcoal">Thought pattern</Label>
+                  <Select
+                    value={filters.distortion}
+                    onValueChange={(distortion) => setFilters({ ...filters, distortion })}
+                  >
+                    <SelectTrigger className="bg-white/80">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_DISTORTIONS}>All patterns</SelectItem>
+                      {distortions.map((distortion) => (
+                        <SelectItem key={distortion} value={distortion}>
+                          {distortion}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  disabled={!hasFilters}
+                  onClick={() => setFilters({ from: "", to: "", distortion: ALL_DISTORTIONS })}
+                  className="glass-effect"
+                >
+                  Clear Filters
                 </Button>
-              </Link>
+              </div>
             </CardContent>
           </Card>
+
+          {isLoading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {isError && (
+            <Card className="glass-effect">
+              <CardContent className="p-8 text-center text-warm-gray">
+                I couldn't load your sessions right now. Please try again in a moment.
+              </CardContent>
+            </Card>
+          )}
+
+          {!isLoading && !isError && total === 0 && !hasFilters && (
+            <Card className="glass-effect">
+              <CardContent className="p-12 text-center">
+                <div className="w-16 h-16 bg-gradient-to-r from-primary to-secondary rounded-full flex items-center justify-center mx-auto mb-6">
+                  <Archive className="w-8 h-8 text-white" />
+                </div>
+                <h3 className="text-2xl font-bold text-charcoal mb-4">
+                  No sessions yet
+                </h3>
+                <p className="text-warm-gray text-lg mb-8">
+                  Your reframing journey starts with your first session. Ready to begin transforming your thoughts?
+                </p>
+                <Link href="/session">
+                  <Button className="px-8 py-3 bg-gradient-to-r from-primary to-secondary text-white font-semibold rounded-full hover:shadow-lg hover:scale-105 transition-all duration-200">
+                    Start Your First Session
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+
+          {!isLoading && !isError && total === 0 && hasFilters && (
+            <Card className="glass-effect">
+              <CardContent className="p-8 text-center text-warm-gray">
+                No sessions match these filters.
+              </CardContent>
+            </Card>
+          )}
+
+          {sessions.length > 0 && (
+            <>
+              <p className="text-sm text-warm-gray">
+                Showing {sessions.length} of {total} {total === 1 ? "session" : "sessions"}
+              </p>
+              <div className="space-y-4">
+                {sessions.map((session) => (
+                  <SessionCard key={session.id} session={session} />
+                ))}
+              </div>
+            </>
+          )}
+
+          {hasNextPage && (
+            <div ref={loadMoreRef} className="flex justify-center pt-2">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="glass-effect"
+              >
+                {isFetchingNextPage ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load More"}
+              </Button>
+            </div>
+          )}
         </div>
       </main>
     </div>
@@ -8,11 +8,21 @@ import { Form, FormControl, FormField, FormItem } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 // import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 // import { ScrollArea } from "@/components/ui/scroll-area";
-import { ArrowLeft, MessageCircle, CheckCircle, Loader2, Sparkles } from "lucide-react";
+import { ArrowLeft, MessageCircle, CheckCircle, Loader2, Sparkles, Shuffle, HeartHandshake } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { ApiError, apiRequest, apiStream } from "@/lib/queryClient";
+import { dailyLimitToast, getRateLimitError, isDailyLimitError, rateLimitToast } from "@/lib/rate-limit";
+import { refreshTokenUsage } from "@/hooks/use-token-usage";
+import { TokenUsageBanner } from "@/components/token-usage-banner";
+import { DistressRating } from "@/components/distress-rating";
 
 const messageFormSchema = z.object({
   message: z.string().min(1, "Please enter a message"),
@@ -21,7 +31,7 @@ const messageFormSchema = z.object({
 type MessageFormData = z.infer<typeof messageFormSchema>;
 
 interface ChatMessage {
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
 }
@@ -36,6 +46,17 @@ interface ReframingSession {
   isCompleted: boolean;
   turnCount?: number;
   maxTurns?: number;
+  distressScoreBefore: number | null;
+  distressScoreAfter: number | null;
+  safetyMode: boolean;
+}
+
+interface MethodRecommendation {
+  reframingMethod: string;
+  score: number;
+  suggestedForDistortion: boolean;
+  started: number;
+  completed: number;
 }
 
 interface ChatResponse {
@@ -47,6 +68,7 @@ interface ChatResponse {
   reachedTurnLimit?: boolean;
   turnCount?: number;
   maxTurns?: number;
+  safetyMode?: boolean;
 }
 
 // Method-specific starter prompts component
@@ -166,11 +188,19 @@ const PacingOptionsCard = ({
 const CompletionSummaryCard = ({ 
   originalThought, 
   distortion, 
-  finalReframe 
+  finalReframe,
+  distressScoreBefore,
+  distressScoreAfter,
+  onRateDistress,
+  isSavingDistress
 }: {
   originalThought: string;
   distortion: string;
   finalReframe: string;
+  distressScoreBefore: number | null;
+  distressScoreAfter: number | null;
+  onRateDistress: (score: number) => void;
+  isSavingDistress: boolean;
 }) => (
   <Card className="glass-effect border-green-200 bg-green-50/50 max-w-2xl mx-auto mb-4">
     <CardContent className="p-6">
@@ -194,6 +224,22 @@ const CompletionSummaryCard = ({
           <span className="font-medium text-charcoal">Your New Perspective:</span>
           <p className="text-green-700 font-medium">"{finalReframe}"</p>
         </div>
+
+        <div className="pt-2">
+          <span className="font-medium text-charcoal">How distressing does the original thought feel now?</span>
+          <div className="mt-2">
+            <DistressRating
+              value={distressScoreAfter}
+              onChange={onRateDistress}
+              disabled={isSavingDistress}
+            />
+          </div>
+          {distressScoreBefore !== null && distressScoreAfter !== null && (
+            <p className="text-sm text-warm-gray mt-2">
+              Distress went from {distressScoreBefore} to {distressScoreAfter} out of 10.
+            </p>
+          )}
+        </div>
       </div>
       
       <p className="text-sm text-green-600 mt-4 italic">
@@ -207,9 +253,13 @@ export default function Reframe() {
   const [, setLocation] = useLocation();
   const [reframingSessionId, setReframingSessionId] = useState<number | null>(null);
   const [reframingMethod, setReframingMethod] = useState<string>('evidenceCheck');
+  const [hasPickedMethod, setHasPickedMethod] = useState(false);
   const [showPacingOptions, setShowPacingOptions] = useState(false);
   const [currentTurnCount, setCurrentTurnCount] = useState(0);
   const [maxTurns, setMaxTurns] = useState(12);
+  const [distressScoreBefore, setDistressScoreBefore] = useState<number | null>(null);
+  // The exchange being streamed, shown until the saved history is refetched
+  const [pendingExchange, setPendingExchange] = useState<{ message: string; reply: string } | null>(null);
   const [completionSummary, setCompletionSummary] = useState<{
     originalThought: string;
     distortion: string;
@@ -221,9 +271,23 @@ export default function Reframe() {
   // Get URL parameters
   const searchParams = new URLSearchParams(window.location.search);
   const sessionId = searchParams.get('sessionId');
+  const thoughtId = searchParams.get('thoughtId');
   const thought = searchParams.get('thought');
   const distortion = searchParams.get('distortion');
-  const userId = searchParams.get('userId') || '1';
+
+  // Methods ranked for this distortion; the best one is preselected
+  const { data: recommendations } = useQuery<MethodRecommendation[]>({
+    queryKey: ['/api/reframing/recommendations', distortion],
+    queryFn: () => apiRequest(`/api/reframing/recommendations?distortion=${encodeURIComponent(distortion!)}`),
+    enabled: !!distortion,
+  });
+  const recommendedMethod = recommendations?.[0]?.reframingMethod;
+
+  useEffect(() => {
+    if (recommendedMethod && !hasPickedMethod) {
+      setReframingMethod(recommendedMethod);
+    }
+  }, [recommendedMethod, hasPickedMethod]);
 
   // Form for sending messages
   const form = useForm<MessageFormData>({
@@ -246,10 +310,11 @@ export default function Reframe() {
         method: 'POST',
         body: {
           journalSessionId: parseInt(sessionId),
-          userId: parseInt(userId),
+          detectedThoughtId: thoughtId ? parseInt(thoughtId) : undefined,
           selectedThought: thought,
           distortionType: distortion,
-          reframingMethod: reframingMethod
+          reframingMethod: reframingMethod,
+          distressScoreBefore
         }
       });
     },
@@ -260,7 +325,16 @@ export default function Reframe() {
         description: "Let's work together to reframe this thought.",
       });
     },
-    onError: () => {
+    onError: (error: unknown) => {
+      const rateLimit = getRateLimitError(error);
+      if (rateLimit) {
+        toast(rateLimitToast(rateLimit));
+        return;
+      }
+      if (isDailyLimitError(error)) {
+        toast(dailyLimitToast);
+        return;
+      }
       toast({
         title: "Failed to Start",
         description: "Could not start the reframing session. Please try again.",
@@ -270,28 +344,51 @@ export default function Reframe() {
   });
 
   // Get reframing session details
-  const { data: session, refetch: refetchSession } = useQuery({
+  const { data: session, refetch: refetchSession } = useQuery<ReframingSession>({
     queryKey: ['reframing-session', reframingSessionId],
-    queryFn: () => apiRequest(`/api/reframing/${reframingSessionId}?userId=${userId}`),
+    queryFn: () => apiRequest(`/api/reframing/${reframingSessionId}`),
     enabled: !!reframingSessionId,
   });
 
-  // Send message mutation
+  // Send message mutation - the reply streams in token by token
   const sendMessageMutation = useMutation({
     mutationFn: async (message: string) => {
       if (!reframingSessionId) throw new Error("No active session");
-      
-      return apiRequest(`/api/reframing/${reframingSessionId}/chat`, {
-        method: 'POST',
-        body: {
-          message,
-          userId: parseInt(userId)
+
+      setPendingExchange({ message, reply: "" });
+      form.reset();
+
+      let response = null as ChatResponse | null;
+      await apiStream(`/api/reframing/${reframingSessionId}/chat/stream`, {
+        body: { message },
+        onEvent: (event, data) => {
+          if (event === 'token') {
+            setPendingExchange((pending) => pending && { ...pending, reply: pending.reply + data.text });
+          } else if (event === 'reset') {
+            // A moderated or fallback reply replaces what was streamed
+            setPendingExchange((pending) => pending && { ...pending, reply: "" });
+          } else if (event === 'complete') {
+            setPendingExchange((pending) => pending && { ...pending, reply: data.message });
+            response = data;
+          } else if (event === 'error') {
+            throw new Error(data.error);
+          }
         }
       });
+
+      if (!response) throw new Error("The response ended early. Please try again.");
+      return response;
     },
     onSuccess: async (response: ChatResponse) => {
-      form.reset();
+      refreshTokenUsage();
       await refetchSession();
+      setPendingExchange(null);
+
+      // Crisis language: the session is paused and the safety card takes over
+      if (response.safetyMode) {
+        setShowPacingOptions(false);
+        return;
+      }
 
       // Update turn tracking
       if (response.turnCount !== undefined) {
@@ -320,10 +417,76 @@ export default function Reframe() {
         });
       }
     },
-    onError: (error: any) => {
+    onError: (error: any, message) => {
+      setPendingExchange(null);
+      if (error instanceof ApiError && error.status === 423) {
+        refetchSession();
+        return;
+      }
+      // Give the unsent message back so it can be retried
+      form.setValue("message", message);
+      const rateLimit = getRateLimitError(error);
+      if (rateLimit) {
+        toast(rateLimitToast(rateLimit));
+        return;
+      }
+      if (isDailyLimitError(error)) {
+        toast(dailyLimitToast);
+        return;
+      }
       toast({
         title: "Message Failed",
-        description: error.message || "Could not send message. Please try again.",
+        description: (error instanceof ApiError ? error.data?.error : error.message) || "Could not send message. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Change method mid-conversation
+  const switchMethodMutation = useMutation({
+    mutationFn: async (method: string) => {
+      return apiRequest(`/api/reframing/${reframingSessionId}/method`, {
+        method: 'POST',
+        body: { reframingMethod: method }
+      });
+    },
+    onSuccess: async (_data, method) => {
+      setReframingMethod(method);
+      setShowPacingOptions(false);
+      await refetchSession();
+      toast({
+        title: "Method Switched",
+        description: `Continuing with ${reframingMethods[method as keyof typeof reframingMethods]?.name}.`,
+      });
+    },
+    onError: (error) => {
+      if (error instanceof ApiError && error.status === 423) {
+        refetchSession();
+        return;
+      }
+      toast({
+        title: "Switch Failed",
+        description: "Could not change the reframing method. Please try again.",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Distress rating after completion
+  const rateDistressMutation = useMutation({
+    mutationFn: async (distressScoreAfter: number) => {
+      return apiRequest(`/api/reframing/${reframingSessionId}`, {
+        method: 'PATCH',
+        body: { distressScoreAfter }
+      });
+    },
+    onSuccess: () => {
+      refetchSession();
+    },
+    onError: () => {
+      toast({
+        title: "Rating Not Saved",
+        description: "Could not save your distress rating. Please try again.",
         variant: "destructive",
       });
     }
@@ -340,10 +503,15 @@ export default function Reframe() {
   };
 
   const handleCreateVisualization = () => {
-    // Navigate to visualization page (to be implemented)
+    if (session?.isCompleted && session.finalReframedThought) {
+      setLocation(`/visualize?session=${reframingSessionId}`);
+      return;
+    }
+    // The visualization is built around the reframed thought, so keep going until there is one
+    setShowPacingOptions(false);
     toast({
-      title: "Visualization Coming Soon",
-      description: "This feature will be available in the next update.",
+      title: "Almost There",
+      description: "Keep reframing until you've landed on a new thought, then create your visualization from it.",
     });
   };
 
@@ -352,7 +520,7 @@ export default function Reframe() {
   // Scroll to bottom when messages change
   useEffect(() => {
     scrollToBottom();
-  }, [session?.chatHistory]);
+  }, [session?.chatHistory, pendingExchange]);
 
   const onSubmit = (data: MessageFormData) => {
     sendMessageMutation.mutate(data.message);
@@ -425,6 +593,8 @@ export default function Reframe() {
       <main className="flex-1 flex flex-col px-6 py-8">
         <div className="max-w-4xl mx-auto w-full flex-1 flex flex-col space-y-6">
           
+          <TokenUsageBanner />
+
           {/* Thought Card */}
           <Card className="glass-effect shadow-lg">
             <CardHeader>
@@ -459,31 +629,59 @@ export default function Reframe() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div className="grid grid-cols-1 gap-3">
-                  {Object.entries(reframingMethods).map(([key, method]) => (
-                    <button
-                      key={key}
-                      onClick={() => setReframingMethod(key)}
-                      className={`p-4 rounded-lg border-2 transition-all text-left ${
-                        reframingMethod === key
-                          ? 'border-primary bg-primary/10'
-                          : 'border-gray-200 hover:border-primary/50'
-                      }`}
-                    >
-                      <div className="flex items-start space-x-3">
-                        <span className="text-xl">{method.icon}</span>
-                        <div>
-                          <div className="font-medium text-sm">{method.name}</div>
-                          <div className="text-xs text-warm-gray mt-1">{method.description}</div>
+                  {Object.entries(reframingMethods).map(([key, method]) => {
+                    const recommendation = recommendations?.find((r) => r.reframingMethod === key);
+                    return (
+                      <button
+                        key={key}
+                        onClick={() => {
+                          setReframingMethod(key);
+                          setHasPickedMethod(true);
+                        }}
+                        className={`p-4 rounded-lg border-2 transition-all text-left ${
+                          reframingMethod === key
+                            ? 'border-primary bg-primary/10'
+                            : 'border-gray-200 hover:border-primary/50'
+                        }`}
+                      >
+                        <div className="flex items-start space-x-3">
+                          <span className="text-xl">{method.icon}</span>
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-sm">{method.name}</span>
+                              {key === recommendedMethod && (
+                                <Badge className="bg-secondary/20 text-secondary-foreground text-xs">
+                                  <Sparkles className="w-3 h-3 mr-1" />
+                                  Recommended
+                                </Badge>
+                              )}
+                            </div>
+                            <div className="text-xs text-warm-gray mt-1">{method.description}</div>
+                            {recommendation && recommendation.started > 0 ? (
+                              <div className="text-xs text-warm-gray mt-1 italic">
+                                You completed {recommendation.completed} of {recommendation.started} sessions on this pattern with it
+                              </div>
+                            ) : recommendation?.suggestedForDistortion && (
+                              <div className="text-xs text-warm-gray mt-1 italic">Often helps with {distortion}</div>
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    </button>
-                  ))}
+                      </button>
+                    );
+                  })}
                 </div>
                 
+                <div className="pt-4 space-y-2">
+                  <p className="text-sm font-medium text-charcoal">
+                    How distressing does this thought feel right now?
+                  </p>
+                  <DistressRating value={distressScoreBefore} onChange={setDistressScoreBefore} />
+                </div>
+
                 <div className="pt-4 flex justify-center">
                   <Button
                     onClick={() => startSessionMutation.mutate()}
-                    disabled={startSessionMutation.isPending}
+                    disabled={startSessionMutation.isPending || distressScoreBefore === null}
                     className="px-8 py-3 bg-gradient-to-r from-primary to-secondary text-white font-semibold rounded-full hover:shadow-lg hover:scale-105 transition-all duration-200"
                   >
                     {startSessionMutation.isPending ? (
@@ -516,16 +714,45 @@ export default function Reframe() {
                     </Badge>
                   )}
                 </CardTitle>
-                <p className="text-sm text-warm-gray">
-                  Using: {reframingMethods[session.reframingMethod as keyof typeof reframingMethods]?.name}
-                </p>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-warm-gray">
+                    Using: {reframingMethods[session.reframingMethod as keyof typeof reframingMethods]?.name}
+                  </p>
+                  {!session.isCompleted && !session.safetyMode && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={switchMethodMutation.isPending || sendMessageMutation.isPending}
+                          className="text-warm-gray hover:text-charcoal"
+                        >
+                          {switchMethodMutation.isPending
+                            ? <Loader2 className="w-4 h-4 animate-spin mr-1" />
+                            : <Shuffle className="w-4 h-4 mr-1" />}
+                          Switch Method
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        {Object.entries(reframingMethods)
+                          .filter(([key]) => key !== session.reframingMethod)
+                          .map(([key, method]) => (
+                            <DropdownMenuItem key={key} onClick={() => switchMethodMutation.mutate(key)}>
+                              <span className="mr-2">{method.icon}</span>
+                              {method.name}
+                            </DropdownMenuItem>
+                          ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
               </CardHeader>
               <CardContent className="flex-1 flex flex-col space-y-4">
                 
                 {/* Messages */}
                 <div className="flex-1 max-h-96 overflow-y-auto pr-4">
                   <div className="space-y-4">
-                    {session.chatHistory?.length === 0 && (
+                    {session.chatHistory?.every((message: ChatMessage) => message.role === 'system') && (
                       <div className="text-center py-8">
                         <MethodStarterPrompt 
                           method={session.reframingMethod} 
@@ -534,7 +761,11 @@ export default function Reframe() {
                       </div>
                     )}
                     
-                    {session.chatHistory?.map((message: ChatMessage, index: number) => (
+                    {session.chatHistory?.map((message: ChatMessage, index: number) => message.role === 'system' ? (
+                      <p key={index} className="text-center text-xs text-warm-gray italic">
+                        {message.content}
+                      </p>
+                    ) : (
                       <div
                         key={index}
                         className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
@@ -553,6 +784,26 @@ export default function Reframe() {
                         </div>
                       </div>
                     ))}
+
+                    {pendingExchange && (
+                      <>
+                        <div className="flex justify-end">
+                          <div className="max-w-[80%] p-3 rounded-lg bg-primary text-white">
+                            <p className="text-sm">{pendingExchange.message}</p>
+                          </div>
+                        </div>
+                        <div className="flex justify-start">
+                          <div className="max-w-[80%] p-3 rounded-lg bg-white text-charcoal shadow-sm border">
+                            {pendingExchange.reply ? (
+                              <p className="text-sm">{pendingExchange.reply}</p>
+                            ) : (
+                              <Loader2 className="w-4 h-4 animate-spin text-warm-gray" />
+                            )}
+                            <p className="text-xs opacity-70 mt-1">Reframe</p>
+                          </div>
+                        </div>
+                      </>
+                    )}
                     <div ref={messagesEndRef} />
                   </div>
                 </div>
@@ -563,11 +814,15 @@ export default function Reframe() {
                     originalThought={completionSummary.originalThought}
                     distortion={completionSummary.distortion}
                     finalReframe={completionSummary.finalReframe}
+                    distressScoreBefore={session.distressScoreBefore}
+                    distressScoreAfter={rateDistressMutation.isPending ? rateDistressMutation.variables : session.distressScoreAfter}
+                    onRateDistress={(score) => rateDistressMutation.mutate(score)}
+                    isSavingDistress={rateDistressMutation.isPending}
                   />
                 )}
 
                 {/* Pacing Options */}
-                {showPacingOptions && !session.isCompleted && (
+                {showPacingOptions && !session.isCompleted && !session.safetyMode && (
                   <PacingOptionsCard
                     onKeepReframing={handleKeepReframing}
                     onTryDifferent={handleTryDifferent}
@@ -588,8 +843,30 @@ export default function Reframe() {
                   </Card>
                 )}
 
+                {/* Safety mode: the chat is paused after crisis language */}
+                {session.safetyMode && (
+                  <Card className="bg-rose-50 border-rose-200">
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex items-center space-x-2">
+                        <HeartHandshake className="w-5 h-5 text-rose-600" />
+                        <h4 className="font-semibold text-rose-800">Let's pause here</h4>
+                      </div>
+                      <p className="text-rose-700 text-sm">
+                        What you shared sounds really hard. This conversation is paused so you can reach out to
+                        someone who can support you right now.
+                      </p>
+                      <Button
+                        onClick={() => setLocation("/crisis-resources")}
+                        className="w-full bg-rose-600 hover:bg-rose-700 text-white"
+                      >
+                        View support resources
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )}
+
                 {/* Message Input */}
-                {!session.isCompleted && !showPacingOptions && (
+                {!session.isCompleted && !showPacingOptions && !session.safetyMode && (
                   <Form {...form}>
                     <form onSubmit={form.handleSubmit(onSubmit)} className="flex space-x-2">
                       <FormField
@@ -624,14 +901,24 @@ export default function Reframe() {
                 )}
 
                 {/* Progress indicator */}
-                {currentTurnCount > 0 && !session.isCompleted && (
+                {currentTurnCount > 0 && !session.isCompleted && !session.safetyMode && (
                   <div className="text-center text-xs text-warm-gray">
                     Exchange {Math.ceil(currentTurnCount / 2)} of {Math.ceil(maxTurns / 2)} • Next pacing check in {6 - (currentTurnCount % 6)} messages
                   </div>
                 )}
 
                 {session.isCompleted && (
-                  <div className="text-center pt-4">
+                  <div className="flex flex-col sm:flex-row items-center justify-center gap-3 pt-4">
+                    {session.finalReframedThought && !session.safetyMode && (
+                      <Button
+                        variant="outline"
+                        onClick={handleCreateVisualization}
+                        className="px-8 py-3 rounded-full"
+                      >
+                        <Sparkles className="w-4 h-4 mr-2" />
+                        Create Visualization
+                      </Button>
+                    )}
                     <Button
                       onClick={() => setLocation("/session")}
                       className="px-8 py-3 bg-gradient-to-r from-primary to-secondary text-white font-semibold rounded-full hover:shadow-lg hover:scale-105 transition-all duration-200"
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { useSession } from "@/context/SessionContext";
@@ -7,23 +8,30 @@ import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ArrowLeft, Brain, Lightbulb, Loader2, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { dailyLimitToast, getRateLimitError, isDailyLimitError, rateLimitToast } from "@/lib/rate-limit";
+import { refreshTokenUsage } from "@/hooks/use-token-usage";
+import { TokenUsageBanner } from "@/components/token-usage-banner";
+import { SessionCapDialog } from "@/components/session-cap-dialog";
+import { RULES } from "@shared/rules";
 
 const journalFormSchema = z.object({
   journalEntry: z.string()
     .min(10, "Please write at least 10 characters to get meaningful analysis")
     .max(5000, "Journal entry cannot exceed 5000 characters"),
-  userId: z.number().optional(),
+  flaggedForFullStorage: z.boolean(),
 });
 
 type JournalFormData = z.infer<typeof journalFormSchema>;
 
 interface DetectedThought {
+  id: number;
   thought: string;
   distortion: string;
   explanation: string;
@@ -45,13 +53,14 @@ interface SessionLimitError {
 export default function Session() {
   const [, setLocation] = useLocation();
   const { analysisResult, setAnalysisResult, sessionLimitError, setSessionLimitError, clearSession } = useSession();
+  const [manageSessionsOpen, setManageSessionsOpen] = useState(false);
   const { toast } = useToast();
 
   const form = useForm<JournalFormData>({
     resolver: zodResolver(journalFormSchema),
     defaultValues: {
-      userId: 1, // Demo user ID
       journalEntry: "",
+      flaggedForFullStorage: false,
     },
   });
 
@@ -63,6 +72,12 @@ export default function Session() {
       });
     },
     onSuccess: (result) => {
+      refreshTokenUsage();
+      // Crisis language: go straight to the support resources instead of reframing
+      if (result.crisis) {
+        setLocation("/crisis-resources");
+        return;
+      }
       setAnalysisResult(result);
       toast({
         title: "Analysis Complete",
@@ -72,29 +87,20 @@ export default function Session() {
     onError: (error: any) => {
       console.error("Analysis error:", error);
       
-      // Check if it's a session limit error
-      if (error.status === 429) {
-        error.json().then((errorData: SessionLimitError) => {
-          setSessionLimitError(errorData);
-        }).catch(() => {
-          toast({
-            title: "Session Limit Reached",
-            description: "You've reached your session limit. Please delete some sessions to continue.",
-            variant: "destructive",
-          });
-        });
-      } else if (error.message?.includes("Daily AI usage limit reached")) {
+      const rateLimit = getRateLimitError(error);
+      if (rateLimit) {
+        toast(rateLimitToast(rateLimit));
+      } else if (isDailyLimitError(error)) {
+        toast(dailyLimitToast);
+      } else if (error instanceof ApiError && error.status === 429 && error.data?.maxSessions) {
+        // Session storage cap reached
+        setSessionLimitError(error.data as SessionLimitError);
+      } else if (error instanceof ApiError && error.status === 429) {
         toast({
-          title: "Daily Limit Reached",
-          description: "You've reached your daily AI usage limit. Please try again tomorrow.",
+          title: "Session Limit Reached",
+          description: "You've reached your session limit. Please delete some sessions to continue.",
           variant: "destructive",
         });
-      } else if (error.message?.includes("Crisis support needed")) {
-        // Handle crisis detection gracefully
-        toast({
-          title: "Support Resources Available",
-          description: "I've detected you might need additional support. Please consider reaching out to a professional.",
-        });
       } else {
         toast({
           title: "Analysis Failed", 
@@ -115,16 +121,24 @@ export default function Session() {
       sessionId: analysisResult!.sessionId.toString(),
       thought: thought.thought,
       distortion: thought.distortion,
-      userId: '1' // Mock user ID for now
     });
+    // Results saved before thoughts had ids are reframed by their text
+    if (thought.id) {
+      queryParams.set('thoughtId', thought.id.toString());
+    }
     setLocation(`/reframe?${queryParams.toString()}`);
   };
 
   const handleDeleteSessions = () => {
-    // TODO: Implement session deletion functionality
+    setManageSessionsOpen(true);
+  };
+
+  const handleSpaceFreed = () => {
+    setManageSessionsOpen(false);
+    setSessionLimitError(null);
     toast({
-      title: "Coming Soon",
-      description: "Session management features will be available soon.",
+      title: "Space Freed",
+      description: "You're ready to continue. Your entry is still here - submit it when you're ready.",
     });
   };
 
@@ -189,6 +203,14 @@ export default function Session() {
             </Card>
           </div>
         </main>
+
+        <SessionCapDialog
+          open={manageSessionsOpen}
+          onOpenChange={setManageSessionsOpen}
+          canExport={sessionLimitError.canExport}
+          maxSessions={sessionLimitError.maxSessions}
+          onSpaceFreed={handleSpaceFreed}
+        />
       </div>
     );
   }
@@ -316,7 +338,8 @@ export default function Session() {
 
       {/* Journal Form */}
       <main className="flex-1 flex items-center justify-center px-6 py-12">
-        <div className="max-w-3xl mx-auto w-full">
+        <div className="max-w-3xl mx-auto w-full space-y-6">
+          <TokenUsageBanner />
           <Card className="glass-effect shadow-xl">
             <CardContent className="p-8 md:p-12">
               <div className="text-center mb-8">
@@ -354,6 +377,26 @@ export default function Session() {
                     )}
                   />
 
+                  {RULES.STORAGE.DEFAULT_STORAGE.allowUserToFlagForFullStorage && (
+                    <FormField
+                      control={form.control}
+                      name="flaggedForFullStorage"
+                      render={({ field }) => (
+                        <FormItem className="flex items-center justify-between gap-4 p-4 bg-white/60 border border-white/40 rounded-2xl">
+                          <div className="space-y-1">
+                            <FormLabel className="text-charcoal font-semibold">Keep this session</FormLabel>
+                            <p className="text-xs text-warm-gray">
+                              Otherwise only a short summary, your thought patterns and distress ratings are kept once you finish reframing.
+                            </p>
+                          </div>
+                          <FormControl>
+                            <Switch checked={field.value} onCheckedChange={field.onChange} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   <div className="text-center pt-6">
                     <Button
                       type="submit"
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Download, FileJson, FileText, FileType, Loader2, Trash2 } from "lucide-react";
+import { useAuth, type AuthUser } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ApiError, apiRequest, queryClient } from "@/lib/queryClient";
+import { downloadExport, type ExportFormat } from "@/lib/export";
+import { RULES } from "@shared/rules";
+
+const exportOptions: { format: ExportFormat; title: string; description: string; icon: typeof FileJson }[] = [
+  {
+    format: "pdf",
+    title: "PDF",
+    description: "A readable document of your journal entries and conversations.",
+    icon: FileType,
+  },
+  {
+    format: "markdown",
+    title: "Markdown",
+    description: "Plain text you can open in any notes app.",
+    icon: FileText,
+  },
+  {
+    format: "json",
+    title: "JSON",
+    description: "Machine-readable data you can import elsewhere.",
+    icon: FileJson,
+  },
+];
+
+const DELETION_GRACE_PERIOD_DAYS = RULES.COMPLIANCE.DATA_MANAGEMENT.gracePeriodDays;
+
+export default function Settings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: async (): Promise<AuthUser> => {
+      return apiRequest("/api/account/deletion", { method: "POST", body: { password } });
+    },
+    onSuccess: (deletedUser) => {
+      setConfirmOpen(false);
+      setPassword("");
+      // Protected pages switch to the pending-deletion screen
+      queryClient.setQueryData(["/api/auth/me"], deletedUser);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Account Not Deleted",
+        description: error instanceof ApiError && error.status === 400
+          ? "That password wasn't right. Please try again."
+          : "Could not delete your account. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <div className="w-full px-6 py-4 glass-effect">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Link href="/">
+            <Button
+              variant="ghost"
+              className="flex items-center space-x-2 text-warm-gray hover:text-charcoal"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Back</span>
+            </Button>
+          </Link>
+          <h2 className="text-xl font-semibold text-charcoal">Settings</h2>
+        </div>
+      </div>
+
+      <main className="flex-1 px-6 py-12">
+        <div className="max-w-4xl mx-auto w-full space-y-6">
+          <Card className="glass-effect">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-charcoal">
+                <Download className="w-5 h-5 text-primary" />
+                <span>Export Your Data</span>
+              </CardTitle>
+              <p className="text-sm text-warm-gray">
+                Download everything saved for {user?.username}: your intake answers, journal entries,
+                detected thoughts and reframing conversations.
+              </p>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {exportOptions.map(({ format, title, description, icon: Icon }) => (
+                <button
+                  key={format}
+                  onClick={() => downloadExport(format)}
+                  className="p-4 text-left border border-white/40 rounded-xl glass-hover"
+                >
+                  <Icon className="w-6 h-6 text-primary mb-2" />
+                  <h4 className="font-semibold text-charcoal">{title}</h4>
+                  <p className="text-sm text-warm-gray">{description}</p>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card className="glass-effect">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2 text-charcoal">
+                <Trash2 className="w-5 h-5 text-destructive" />
+                <span>Delete Your Account</span>
+              </CardTitle>
+              <p className="text-sm text-warm-gray">
+                Your account and all of your sessions are hidden straight away and permanently deleted
+                after {DELETION_GRACE_PERIOD_DAYS} days. Log back in before then to change your mind.
+              </p>
+            </CardHeader>
+            <CardContent>
+              <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" className="glass-effect text-destructive hover:text-destructive">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete Account
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Enter your password to confirm. You'll have {DELETION_GRACE_PERIOD_DAYS} days to cancel
+                      before everything is permanently removed.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <div className="space-y-2">
+                    <Label htmlFor="delete-password">Password</Label>
+                    <Input
+                      id="delete-password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      autoComplete="current-password"
+                    />
+                  </div>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel onClick={() => setPassword("")}>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={(e) => {
+                        e.preventDefault();
+                        deleteAccountMutation.mutate();
+                      }}
+                      disabled={!password || deleteAccountMutation.isPending}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      {deleteAccountMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Delete Account"}
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, Loader2, Pause, Play, RotateCcw, SkipBack, SkipForward } from "lucide-react";
+import type { Visualization, VisualizationStep } from "@/pages/visualize";
+
+// Time to read a step at a slow, guided pace before its pause starts
+const MS_PER_WORD = 450;
+const MIN_READ_MS = 4000;
+
+function stepDurationMs(step: VisualizationStep): number {
+  const words = step.text.split(/\s+/).filter(Boolean).length;
+  return Math.max(MIN_READ_MS, words * MS_PER_WORD) + step.pauseSeconds * 1000;
+}
+
+export default function VisualizationPlayer({ params }: { params: { id: string } }) {
+  const { data: visualization, isLoading, isError } = useQuery<Visualization>({
+    queryKey: ["/api/visualizations", params.id],
+  });
+  const [stepIndex, setStepIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const steps = visualization?.steps || [];
+  const isFinished = steps.length > 0 && stepIndex >= steps.length - 1 && !isPlaying;
+
+  // Advance through the script while playing; stop on the last step
+  useEffect(() => {
+    if (!isPlaying || !steps[stepIndex]) return;
+    const timer = setTimeout(() => {
+      if (stepIndex < steps.length - 1) {
+        setStepIndex(stepIndex + 1);
+      } else {
+        setIsPlaying(false);
+      }
+    }, stepDurationMs(steps[stepIndex]));
+    return () => clearTimeout(timer);
+  }, [isPlaying, stepIndex, steps]);
+
+  const restart = () => {
+    setStepIndex(0);
+    setIsPlaying(true);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <div className="w-full px-6 py-4 glass-effect">
+        <div className="max-w-2xl mx-auto flex items-center justify-between">
+          <Link href="/visualize">
+            <Button
+              variant="ghost"
+              className="flex items-center space-x-2 text-warm-gray hover:text-charcoal"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>All Visualizations</span>
+            </Button>
+          </Link>
+          <h2 className="text-xl font-semibold text-charcoal">Visualization</h2>
+        </div>
+      </div>
+
+      <main className="flex-1 px-6 py-12">
+        <div className="max-w-2xl mx-auto w-full space-y-6">
+          {isLoading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {isError && (
+            <Card className="glass-effect">
+              <CardContent className="p-8 text-center text-warm-gray">
+                This visualization couldn't be found.
+              </CardContent>
+            </Card>
+          )}
+
+          {visualization && (
+            <Card className="glass-effect shadow-lg">
+              <CardHeader className="text-center space-y-2">
+                <CardTitle className="text-2xl text-charcoal">{visualization.title}</CardTitle>
+                <p className="text-sm text-warm-gray italic">"{visualization.reframedThought}"</p>
+              </CardHeader>
+              <CardContent className="space-y-8">
+                <div className="min-h-[160px] flex items-center justify-center px-4">
+                  <p key={stepIndex} className="text-xl leading-relaxed text-charcoal text-center animate-in fade-in duration-1000">
+                    {steps[stepIndex]?.text}
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Progress value={((stepIndex + 1) / steps.length) * 100} className="h-2" />
+                  <p className="text-xs text-warm-gray text-center">
+                    Step {stepIndex + 1} of {steps.length}
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-center space-x-3">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    disabled={stepIndex === 0}
+                    onClick={() => setStepIndex(stepIndex - 1)}
+                    aria-label="Previous step"
+                  >
+                    <SkipBack className="w-4 h-4" />
+                  </Button>
+                  {isFinished ? (
+                    <Button onClick={restart} className="px-8">
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Play Again
+                    </Button>
+                  ) : (
+                    <Button onClick={() => setIsPlaying(!isPlaying)} className="px-8">
+                      {isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+                      {isPlaying ? "Pause" : stepIndex === 0 ? "Begin" : "Resume"}
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    disabled={stepIndex >= steps.length - 1}
+                    onClick={() => setStepIndex(stepIndex + 1)}
+                    aria-label="Next step"
+                  >
+                    <SkipForward className="w-4 h-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useEffect, useRef } from "react";
+import { Link, useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Loader2, Lock, Play, Sparkles } from "lucide-react";
+import { ApiError, apiRequest, queryClient } from "@/lib/queryClient";
+import { getRateLimitError, rateLimitToast } from "@/lib/rate-limit";
+import { refreshTokenUsage } from "@/hooks/use-token-usage";
+import { useToast } from "@/hooks/use-toast";
+
+export interface VisualizationStep {
+  text: string;
+  pauseSeconds: number;
+}
+
+export interface Visualization {
+  id: number;
+  reframingSessionId: number;
+  title: string;
+  reframedThought: string;
+  steps: VisualizationStep[];
+  createdAt: string;
+}
+
+export default function Visualize() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  // Coming from a finished reframe: /visualize?session=<reframing session id>
+  const reframingSessionId = Number(new URLSearchParams(window.location.search).get("session")) || null;
+  const requested = useRef(false);
+
+  const { data: visualizations, isLoading } = useQuery<Visualization[]>({
+    queryKey: ["/api/visualizations"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (sessionId: number): Promise<Visualization> => {
+      return apiRequest("/api/visualizations", {
+        method: "POST",
+        body: { reframingSessionId: sessionId },
+      });
+    },
+    onSuccess: (visualization) => {
+      refreshTokenUsage();
+      queryClient.invalidateQueries({ queryKey: ["/api/visualizations"] });
+      queryClient.setQueryData(["/api/visualizations", String(visualization.id)], visualization);
+      setLocation(`/visualize/${visualization.id}`, { replace: true });
+    },
+    onError: (error: unknown) => {
+      const rateLimit = getRateLimitError(error);
+      if (rateLimit) {
+        toast(rateLimitToast(rateLimit));
+        return;
+      }
+      // The paid-plan notice is shown in the page instead
+      if (error instanceof ApiError && error.status === 403) return;
+      toast({
+        title: "Visualization Failed",
+        description: error instanceof ApiError && error.data?.error
+          ? error.data.error
+          : "Could not create your visualization. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (reframingSessionId && !requested.current) {
+      requested.current = true;
+      createMutation.mutate(reframingSessionId);
+    }
+  }, [reframingSessionId]);
+
+  const needsUpgrade = createMutation.error instanceof ApiError && createMutation.error.status === 403;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <div className="w-full px-6 py-4 glass-effect">
+        <div className="max-w-4xl mx-auto flex items-center justify-between">
+          <Link href="/">
+            <Button
+              variant="ghost"
+              className="flex items-center space-x-2 text-warm-gray hover:text-charcoal"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span>Home</span>
+            </Button>
+          </Link>
+          <h2 className="text-xl font-semibold text-charcoal">Guided Visualizations</h2>
+        </div>
+      </div>
+
+      <main className="flex-1 px-6 py-12">
+        <div className="max-w-4xl mx-auto w-full space-y-6">
+          {createMutation.isPending && (
+            <Card className="glass-effect">
+              <CardContent className="p-8 flex flex-col items-center space-y-3 text-center">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                <p className="text-charcoal font-medium">Creating your visualization...</p>
+                <p className="text-sm text-warm-gray">Shaping a short guided scene around your reframed thought.</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {needsUpgrade && (
+            <Card className="glass-effect">
+              <CardContent className="p-8 flex flex-col items-center space-y-3 text-center">
+                <Lock className="w-8 h-8 text-warm-gray" />
+                <p className="text-charcoal font-medium">Guided visualizations are part of the paid plan</p>
+                <p className="text-sm text-warm-gray">Your reframed thought is saved with the session, so you can come back to it any time.</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {isLoading && (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          )}
+
+          {visualizations && visualizations.length === 0 && !createMutation.isPending && (
+            <Card className="glass-effect">
+              <CardContent className="p-8 text-center text-warm-gray space-y-2">
+                <Sparkles className="w-8 h-8 text-primary mx-auto" />
+                <p>No visualizations yet. Finish a reframe and choose "Create Visualization" to make one.</p>
+              </CardContent>
+            </Card>
+          )}
+
+          {visualizations?.map((visualization) => (
+            <Card key={visualization.id} className="glass-effect">
+              <CardContent className="p-6 flex items-center justify-between gap-4">
+                <div className="space-y-1">
+                  <p className="font-semibold text-charcoal">{visualization.title}</p>
+                  <p className="text-sm text-warm-gray italic">"{visualization.reframedThought}"</p>
+                  <p className="text-xs text-warm-gray">{format(new Date(visualization.createdAt), "MMM d, yyyy")}</p>
+                </div>
+                <Button
+                  onClick={() => setLocation(`/visualize/${visualization.id}`)}
+                  className="shrink-0"
+                >
+                  <Play className="w-4 h-4 mr-1" />
+                  Play
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
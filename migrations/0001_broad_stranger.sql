@@ -0,0 +1,112 @@
+CREATE TABLE "crisis_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"source" text NOT NULL,
+	"journal_session_id" integer,
+	"reframing_session_id" integer,
+	"severity" text NOT NULL,
+	"matched_rule" text NOT NULL,
+	"matched_phrase" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reviewer_notified_at" timestamp,
+	"reviewed_by" text,
+	"review_note" text,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "detected_thoughts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"journal_session_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"thought" text NOT NULL,
+	"distortion" text NOT NULL,
+	"explanation" text DEFAULT '' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "journal_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"journal_entry" text,
+	"belief_summary" text,
+	"primary_distortions" text[] DEFAULT '{}' NOT NULL,
+	"flagged_for_full_storage" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "reframing_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"journal_session_id" integer NOT NULL,
+	"detected_thought_id" integer,
+	"user_id" integer NOT NULL,
+	"selected_thought" text NOT NULL,
+	"distortion_type" text NOT NULL,
+	"reframing_method" text NOT NULL,
+	"chat_history" text[] DEFAULT '{}' NOT NULL,
+	"final_reframed_thought" text,
+	"is_completed" boolean DEFAULT false NOT NULL,
+	"turn_count" integer DEFAULT 0 NOT NULL,
+	"max_turns" integer DEFAULT 12 NOT NULL,
+	"distress_score_before" integer,
+	"distress_score_after" integer,
+	"context_summary" text,
+	"context_summary_through" integer DEFAULT 0 NOT NULL,
+	"safety_mode" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "retention_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"dry_run" boolean NOT NULL,
+	"trigger" text NOT NULL,
+	"journal_sessions_deleted" integer DEFAULT 0 NOT NULL,
+	"reframing_sessions_deleted" integer DEFAULT 0 NOT NULL,
+	"accounts_warned" integer DEFAULT 0 NOT NULL,
+	"accounts_deleted" integer DEFAULT 0 NOT NULL,
+	"details" text NOT NULL,
+	"started_at" timestamp NOT NULL,
+	"finished_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "token_usage" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"operation" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_tokens" integer DEFAULT 0 NOT NULL,
+	"completion_tokens" integer DEFAULT 0 NOT NULL,
+	"total_tokens" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "visualizations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"reframing_session_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"reframed_thought" text NOT NULL,
+	"steps" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"deleted_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "intake_responses" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deletion_scheduled_for" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "last_active_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "inactivity_warning_sent_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "plan" text DEFAULT 'free' NOT NULL;--> statement-breakpoint
+ALTER TABLE "crisis_events" ADD CONSTRAINT "crisis_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "crisis_events" ADD CONSTRAINT "crisis_events_journal_session_id_journal_sessions_id_fk" FOREIGN KEY ("journal_session_id") REFERENCES "public"."journal_sessions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "crisis_events" ADD CONSTRAINT "crisis_events_reframing_session_id_reframing_sessions_id_fk" FOREIGN KEY ("reframing_session_id") REFERENCES "public"."reframing_sessions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "detected_thoughts" ADD CONSTRAINT "detected_thoughts_journal_session_id_journal_sessions_id_fk" FOREIGN KEY ("journal_session_id") REFERENCES "public"."journal_sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "journal_sessions" ADD CONSTRAINT "journal_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reframing_sessions" ADD CONSTRAINT "reframing_sessions_journal_session_id_journal_sessions_id_fk" FOREIGN KEY ("journal_session_id") REFERENCES "public"."journal_sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reframing_sessions" ADD CONSTRAINT "reframing_sessions_detected_thought_id_detected_thoughts_id_fk" FOREIGN KEY ("detected_thought_id") REFERENCES "public"."detected_thoughts"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reframing_sessions" ADD CONSTRAINT "reframing_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "token_usage" ADD CONSTRAINT "token_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "visualizations" ADD CONSTRAINT "visualizations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "visualizations" ADD CONSTRAINT "visualizations_reframing_session_id_reframing_sessions_id_fk" FOREIGN KEY ("reframing_session_id") REFERENCES "public"."reframing_sessions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
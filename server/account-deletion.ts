@@ -0,0 +1,32 @@
+import { storage } from "./storage";
+import { RULES } from "../shared/rules";
+import type { User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Soft-delete the account now and schedule the hard delete for the end of
+ * RULES.COMPLIANCE.DATA_MANAGEMENT.gracePeriodDays
+ */
+export async function requestAccountDeletion(userId: number, now: Date = new Date()): Promise<User | undefined> {
+  const gracePeriodMs = RULES.COMPLIANCE.DATA_MANAGEMENT.gracePeriodDays * DAY_MS;
+  return storage.softDeleteUser(userId, new Date(now.getTime() + gracePeriodMs));
+}
+
+export async function cancelAccountDeletion(userId: number): Promise<User | undefined> {
+  return storage.restoreUser(userId);
+}
+
+/**
+ * Permanently remove every account whose grace period has ended, returning their ids
+ */
+export async function purgeDeletedAccounts(now: Date = new Date(), dryRun: boolean = false): Promise<number[]> {
+  const dueUsers = await storage.getUsersDueForDeletion(now);
+
+  if (!dryRun) {
+    for (const user of dueUsers) {
+      await storage.hardDeleteUser(user.id);
+    }
+  }
+  return dueUsers.map((user) => user.id);
+}
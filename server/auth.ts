@@ -0,0 +1,228 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import session from "express-session";
+import type { Express, Request, Response, NextFunction } from "express";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage, StorageUnavailableError } from "./storage";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+import { RULES } from "../shared/rules";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// lastActiveAt only needs day-level precision, so write it at most this often
+const ACTIVITY_WRITE_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash before a user record leaves the server
+ */
+export function toPublicUser(user: SelectUser) {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+const registerSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  console.warn("⚠️ No SESSION_SECRET set - using a random secret, logins will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
+export function setupAuth(app: Express) {
+  const sessionSettings: session.SessionOptions = {
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: RULES.SECURITY.AUTHENTICATION.tokenExpirationHours * 60 * 60 * 1000,
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  // Keep lastActiveAt fresh for the inactive-account retention rule
+  app.use((req, _res, next) => {
+    const user = req.user;
+    if (user && Date.now() - new Date(user.lastActiveAt).getTime() > ACTIVITY_WRITE_INTERVAL_MS) {
+      storage.touchUser(user.id, new Date())
+        .catch((error) => console.error("Failed to record user activity:", error));
+    }
+    next();
+  });
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // ===========================
+  // 🔑 AUTH ROUTES
+  // ===========================
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const { username, password } = registerSchema.parse(req.body);
+
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else if (error instanceof StorageUnavailableError) {
+        res.status(503).json({ message: "Sign-up is temporarily unavailable. Please try again in a few minutes." });
+      } else {
+        console.error("Registration error:", error);
+        res.status(500).json({ message: "Failed to create account" });
+      }
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      // req.login regenerates the session id, which guards against session fixation
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
+
+/**
+ * Middleware for routes covered by RULES.SECURITY.AUTHENTICATION.
+ * Routes behind it should read the user from `req.user`, never from the request body or query.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Please log in to continue" });
+  }
+  if (req.user.deletedAt) {
+    return res.status(403).json({
+      message: "Your account is scheduled for deletion",
+      code: "ACCOUNT_PENDING_DELETION",
+      deletionScheduledFor: req.user.deletionScheduledFor,
+    });
+  }
+  next();
+}
+
+/**
+ * Like requireAuth, but also admits accounts in their deletion grace period
+ * so they can still cancel the deletion.
+ */
+export function requireLogin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Please log in to continue" });
+  }
+  next();
+}
+
+function adminUsernames(): string[] {
+  return (process.env.ADMIN_USERNAMES || "")
+    .split(",")
+    .map((username) => username.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Middleware for operator-only routes. Admins are listed by username in ADMIN_USERNAMES.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Please log in to continue" });
+  }
+  if (!adminUsernames().includes(req.user.username)) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+}
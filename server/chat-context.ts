@@ -0,0 +1,71 @@
+import { estimateTokens, type LLMMessage } from "./llm-provider";
+import type { ChatMessage } from "./openai-service";
+
+/**
+ * Summary of the oldest chat history entries, kept on the reframing session
+ */
+export interface ConversationSummary {
+  text: string;
+  /** Number of chat history entries, from the start, the summary covers */
+  through: number;
+}
+
+export interface ConversationWindow {
+  /** Entries that have dropped out of the window and still need summarizing */
+  overflow: ChatMessage[];
+  /** Entries sent to the model as message turns */
+  recent: ChatMessage[];
+  /** Index of the first recent entry; the summary should cover everything before it */
+  recentFrom: number;
+}
+
+/**
+ * Chat history as model turns. Method-change notes become system messages so
+ * the model sees where the approach changed.
+ */
+export function toLLMMessages(history: ChatMessage[]): LLMMessage[] {
+  return history.map(message => ({
+    role: message.role,
+    content: message.role === 'system' ? `Note: ${message.content}` : message.content,
+  }));
+}
+
+function messageTokens(message: ChatMessage): number {
+  // A few tokens of per-message overhead on top of the content
+  return estimateTokens(message.content) + 4;
+}
+
+/**
+ * Decide which history entries fit in budget tokens. Everything after the
+ * summary is sent while it fits; once it overflows, only the newest turns
+ * filling half the budget are kept, so the summary is updated every few
+ * exchanges rather than on every message.
+ */
+export function fitToBudget(
+  history: ChatMessage[],
+  summary: ConversationSummary | null,
+  budget: number
+): ConversationWindow {
+  const summarizedThrough = Math.min(summary?.through ?? 0, history.length);
+  const unsummarized = history.slice(summarizedThrough);
+  const total = unsummarized.reduce((sum, message) => sum + messageTokens(message), 0);
+
+  if (total <= budget) {
+    return { overflow: [], recent: unsummarized, recentFrom: summarizedThrough };
+  }
+
+  let recentFrom = history.length;
+  let used = 0;
+  while (recentFrom > summarizedThrough) {
+    const tokens = messageTokens(history[recentFrom - 1]);
+    if (used + tokens > budget / 2) break;
+    used += tokens;
+    recentFrom--;
+  }
+
+  return {
+    overflow: history.slice(summarizedThrough, recentFrom),
+    recent: history.slice(recentFrom),
+    recentFrom,
+  };
+}
@@ -0,0 +1,100 @@
+import { storage } from "./storage";
+import { RULES } from "../shared/rules";
+import type { CrisisMatch } from "../shared/crisis";
+import type { CrisisEvent } from "@shared/schema";
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export type CrisisReviewStatus = "acknowledged" | "resolved";
+
+/**
+ * Tell the reviewer queue about a new event. The payload carries ids and the
+ * matched rule only, never the user's words.
+ */
+async function notifyReviewers(event: CrisisEvent): Promise<void> {
+  const webhookUrl = process.env.CRISIS_REVIEWER_WEBHOOK_URL;
+  if (!webhookUrl) return;
+
+  try {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        type: "crisis_event",
+        eventId: event.id,
+        userId: event.userId,
+        source: event.source,
+        severity: event.severity,
+        matchedRule: event.matchedRule,
+        createdAt: event.createdAt,
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded with ${response.status}`);
+    }
+    await storage.updateCrisisEvent(event.id, { reviewerNotifiedAt: new Date() });
+  } catch (error) {
+    console.error(`Failed to notify crisis reviewers about event ${event.id}:`, error);
+  }
+}
+
+/**
+ * Record crisis language and escalate it: the reframing session (if any) is
+ * locked into safety mode, and with RULES.AI.CRISIS_DETECTION.escalateToHuman
+ * the event waits in the reviewer queue and the webhook is notified.
+ */
+export async function escalateCrisis(details: {
+  userId: number;
+  source: "journal" | "reframing";
+  match: CrisisMatch;
+  journalSessionId?: number;
+  reframingSessionId?: number;
+}): Promise<CrisisEvent> {
+  const escalate = RULES.AI.CRISIS_DETECTION.escalateToHuman;
+
+  const event = await storage.createCrisisEvent({
+    userId: details.userId,
+    source: details.source,
+    journalSessionId: details.journalSessionId ?? null,
+    reframingSessionId: details.reframingSessionId ?? null,
+    severity: details.match.severity,
+    matchedRule: details.match.rule,
+    matchedPhrase: details.match.phrase,
+    // Without human escalation the event is only a record
+    status: escalate ? "pending" : "resolved",
+  });
+
+  if (details.reframingSessionId) {
+    await storage.updateReframingSession(details.reframingSessionId, { safetyMode: true });
+  }
+
+  console.warn(`Crisis event ${event.id} recorded (${event.source}, ${event.severity}, ${event.matchedRule})`);
+
+  if (escalate) {
+    // Don't hold up the user's response on the webhook
+    void notifyReviewers(event);
+  }
+  return event;
+}
+
+/**
+ * A reviewer's update to a queued event. Resolving it can reopen the locked
+ * reframing session.
+ */
+export async function reviewCrisisEvent(
+  id: number,
+  review: { status: CrisisReviewStatus; reviewedBy: string; note?: string; releaseSession?: boolean },
+): Promise<CrisisEvent | undefined> {
+  const event = await storage.updateCrisisEvent(id, {
+    status: review.status,
+    reviewedBy: review.reviewedBy,
+    reviewNote: review.note ?? null,
+    reviewedAt: new Date(),
+  });
+
+  if (event && review.status === "resolved" && review.releaseSession && event.reframingSessionId) {
+    await storage.updateReframingSession(event.reframingSessionId, { safetyMode: false });
+  }
+  return event;
+}
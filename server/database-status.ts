@@ -1,46 +1,82 @@
-import { neon } from "@neondatabase/serverless";
+import { sql } from "drizzle-orm";
+import { getDatabase, type DatabaseDriver } from "./db";
+
+export type FallbackStorage = 'memory' | 'file';
 
 export interface DatabaseStatus {
   connected: boolean;
   error?: string;
-  using: 'database' | 'memory';
+  using: 'database' | FallbackStorage;
+  driver?: DatabaseDriver;
+}
+
+/**
+ * What holds the data without a database: STORAGE_BACKEND=file keeps it in
+ * STORAGE_FILE so it survives a restart, anything else keeps it in memory
+ */
+export function getFallbackStorage(): FallbackStorage {
+  return process.env.STORAGE_BACKEND === 'file' ? 'file' : 'memory';
 }
 
+const FALLBACK_LABELS: Record<FallbackStorage, string> = {
+  memory: 'in-memory storage',
+  file: 'file storage',
+};
+
 let dbStatus: DatabaseStatus = {
   connected: false,
-  using: 'memory'
+  using: getFallbackStorage()
 };
 
+// Health probes check every few seconds; only log when the answer changes
+let checked = false;
+
+function statusChanged(connected: boolean): boolean {
+  const changed = !checked || dbStatus.connected !== connected;
+  checked = true;
+  return changed;
+}
+
 export async function checkDatabaseConnection(): Promise<DatabaseStatus> {
   if (!process.env.DATABASE_URL) {
+    const fallback = getFallbackStorage();
+    if (statusChanged(false)) {
+      console.log(`ℹ️ No DATABASE_URL provided - using ${FALLBACK_LABELS[fallback]}`);
+    }
     dbStatus = {
       connected: false,
       error: 'No DATABASE_URL provided',
-      using: 'memory'
+      using: fallback
     };
     return dbStatus;
   }
 
   try {
-    const sql = neon(process.env.DATABASE_URL);
-    await sql`SELECT 1`;
+    const { db, driver } = getDatabase(process.env.DATABASE_URL);
+    await db.execute(sql`SELECT 1`);
     
+    if (statusChanged(true)) {
+      console.log(`✅ Database connection successful - using PostgreSQL (${driver} driver)`);
+    }
     dbStatus = {
       connected: true,
-      using: 'database'
+      using: 'database',
+      driver
     };
     
-    console.log("✅ Database connection successful - using PostgreSQL");
     return dbStatus;
   } catch (error: any) {
     const errorMessage = error.message || 'Unknown database error';
-    console.log("⚠️ Database connection failed - using in-memory storage");
-    console.log("Error details:", errorMessage);
+    const fallback = getFallbackStorage();
+    if (statusChanged(false)) {
+      console.log(`⚠️ Database connection failed - using ${FALLBACK_LABELS[fallback]}`);
+      console.log("Error details:", errorMessage);
+    }
     
     dbStatus = {
       connected: false,
       error: errorMessage,
-      using: 'memory'
+      using: fallback
     };
     
     return dbStatus;
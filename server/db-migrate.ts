@@ -0,0 +1,20 @@
+import { closeDatabase } from "./db";
+import { runMigrations } from "./migrate";
+
+// npm run db:migrate - apply pending migrations in migrations/ to DATABASE_URL
+(async () => {
+  if (!process.env.DATABASE_URL) {
+    console.error("DATABASE_URL is not set");
+    process.exit(1);
+  }
+
+  try {
+    const applied = await runMigrations(process.env.DATABASE_URL);
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : "Database schema is up to date");
+  } catch (error) {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+})();
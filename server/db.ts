@@ -0,0 +1,70 @@
+import pg from "pg";
+import ws from "ws";
+import { Pool as NeonPool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNodePg, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { drizzle as drizzleNeon, type NeonDatabase } from "drizzle-orm/neon-serverless";
+
+// Neon's pool talks to the database over WebSockets; Node has no global WebSocket
+neonConfig.webSocketConstructor = ws;
+
+// Give up on an unreachable database quickly so storage can fall back instead of hanging requests
+const CONNECTION_TIMEOUT_MS = 5000;
+
+export type DatabaseDriver = "neon" | "pg";
+
+export type Database = NodePgDatabase | NeonDatabase;
+
+export interface DatabaseConnection {
+  driver: DatabaseDriver;
+  db: Database;
+  close(): Promise<void>;
+}
+
+/**
+ * Neon's serverless driver only works against Neon; any other connection
+ * string (local Postgres, a test container, RDS) goes through node-postgres
+ */
+export function isNeonUrl(databaseUrl: string): boolean {
+  try {
+    const { hostname } = new URL(databaseUrl);
+    return hostname.endsWith(".neon.tech");
+  } catch {
+    return false;
+  }
+}
+
+let connection: (DatabaseConnection & { url: string }) | null = null;
+
+/**
+ * The shared connection pool for databaseUrl, created on first use
+ */
+export function getDatabase(databaseUrl: string): DatabaseConnection {
+  if (connection?.url === databaseUrl) {
+    return connection;
+  }
+
+  const driver: DatabaseDriver = isNeonUrl(databaseUrl) ? "neon" : "pg";
+  const options = { connectionString: databaseUrl, connectionTimeoutMillis: CONNECTION_TIMEOUT_MS };
+  const pool = driver === "neon" ? new NeonPool(options) : new pg.Pool(options);
+  // An idle client dropping its connection shouldn't take the process down
+  pool.on("error", (error: Error) => console.error("Database pool error:", error.message));
+
+  const db = pool instanceof NeonPool ? drizzleNeon({ client: pool }) : drizzleNodePg({ client: pool });
+  connection = {
+    url: databaseUrl,
+    driver,
+    db,
+    close: async () => {
+      await pool.end();
+      if (connection?.url === databaseUrl) connection = null;
+    },
+  };
+  return connection;
+}
+
+/**
+ * Close the shared pool so a one-off script can exit
+ */
+export async function closeDatabase(): Promise<void> {
+  await connection?.close();
+}
@@ -0,0 +1,288 @@
+import PDFDocument from "pdfkit";
+import { storage } from "./storage";
+import { parseChatHistory, toDetectedThoughts, toVisualizationResponse, type SavedDetectedThought } from "./session-format";
+import { reframingMethodName } from "../shared/distortions";
+import type { ChatMessage } from "./openai-service";
+import type { VisualizationStep } from "@shared/schema";
+
+export interface ExportedVisualization {
+  id: number;
+  title: string;
+  reframedThought: string;
+  steps: VisualizationStep[];
+  createdAt: Date;
+}
+
+export interface ExportedReframingSession {
+  id: number;
+  selectedThought: string;
+  distortionType: string;
+  reframingMethod: string;
+  finalReframedThought: string | null;
+  isCompleted: boolean;
+  turnCount: number;
+  distressScoreBefore: number | null;
+  distressScoreAfter: number | null;
+  createdAt: Date | null;
+  completedAt: Date | null;
+  chatHistory: ChatMessage[];
+  visualizations: ExportedVisualization[];
+}
+
+export interface ExportedJournalSession {
+  id: number;
+  /** Null when only the session's metadata was kept */
+  journalEntry: string | null;
+  beliefSummary: string | null;
+  primaryDistortions: string[];
+  flaggedForFullStorage: boolean;
+  createdAt: Date | null;
+  detectedThoughts: SavedDetectedThought[];
+  reframingSessions: ExportedReframingSession[];
+}
+
+export interface ExportBundle {
+  exportedAt: string;
+  account: { username: string };
+  intakeResponse: {
+    question1: string;
+    question2: string;
+    question3: string;
+    question4: string;
+    question5: string;
+    createdAt: Date | null;
+  } | null;
+  journalSessions: ExportedJournalSession[];
+}
+
+type IntakeQuestionKey = "question1" | "question2" | "question3" | "question4" | "question5";
+
+const intakeQuestions: Record<IntakeQuestionKey, string> = {
+  question1: "What's been weighing on you personally lately?",
+  question2: "In your work or daily responsibilities, what's been making you feel stuck, frustrated, or uncertain?",
+  question3: "If your inner critic went quiet, what would your ideal life look and feel like?",
+  question4: "What brings you joy—or used to?",
+  question5: "What truly matters to you in how you live, relate, and show up in the world?",
+};
+
+/**
+ * Gather everything we hold for a user. Pass sessionIds to export only some journal sessions.
+ */
+export async function buildExportBundle(userId: number, sessionIds?: number[]): Promise<ExportBundle> {
+  const [user, intake, journalSessions, reframingSessions, visualizations] = await Promise.all([
+    storage.getUser(userId),
+    storage.getIntakeResponseByUserId(userId),
+    storage.getJournalSessionsByUserId(userId),
+    storage.getReframingSessionsByUserId(userId),
+    storage.getVisualizationsByUserId(userId),
+  ]);
+
+  const selectedSessions = sessionIds
+    ? journalSessions.filter(session => sessionIds.includes(session.id))
+    : journalSessions;
+  const thoughts = await storage.getDetectedThoughts(selectedSessions.map(session => session.id));
+
+  return {
+    exportedAt: new Date().toISOString(),
+    account: { username: user?.username || "" },
+    intakeResponse: intake ? {
+      question1: intake.question1,
+      question2: intake.question2,
+      question3: intake.question3,
+      question4: intake.question4,
+      question5: intake.question5,
+      createdAt: intake.createdAt,
+    } : null,
+    journalSessions: selectedSessions.map(session => ({
+      id: session.id,
+      journalEntry: session.journalEntry,
+      beliefSummary: session.beliefSummary,
+      primaryDistortions: session.primaryDistortions,
+      flaggedForFullStorage: session.flaggedForFullStorage,
+      createdAt: session.createdAt,
+      detectedThoughts: toDetectedThoughts(thoughts, session.id),
+      reframingSessions: reframingSessions
+        .filter(reframing => reframing.journalSessionId === session.id)
+        .map(reframing => ({
+          id: reframing.id,
+          selectedThought: reframing.selectedThought,
+          distortionType: reframing.distortionType,
+          reframingMethod: reframing.reframingMethod,
+          finalReframedThought: reframing.finalReframedThought,
+          isCompleted: reframing.isCompleted,
+          turnCount: reframing.turnCount,
+          distressScoreBefore: reframing.distressScoreBefore,
+          distressScoreAfter: reframing.distressScoreAfter,
+          createdAt: reframing.createdAt,
+          completedAt: reframing.completedAt,
+          chatHistory: parseChatHistory(reframing.chatHistory),
+          visualizations: visualizations
+            .filter(visualization => visualization.reframingSessionId === reframing.id)
+            .map(visualization => {
+              const { id, title, reframedThought, steps, createdAt } = toVisualizationResponse(visualization);
+              return { id, title, reframedThought, steps, createdAt };
+            }),
+        })),
+    })),
+  };
+}
+
+const METADATA_ONLY_NOTE = "Only a summary of this session was kept.";
+
+function distressChange(reframing: ExportedReframingSession): string | null {
+  const { distressScoreBefore: before, distressScoreAfter: after } = reframing;
+  if (before === null && after === null) return null;
+  return `Distress: ${before ?? "–"}/10 before, ${after ?? "–"}/10 after`;
+}
+
+function formatDate(date: Date | string | null): string {
+  if (!date) return "Unknown date";
+  return new Date(date).toLocaleString("en-US", { dateStyle: "long", timeStyle: "short", timeZone: "UTC" }) + " UTC";
+}
+
+function speaker(message: ChatMessage): string {
+  return message.role === "assistant" ? "Reframe" : "You";
+}
+
+export function toMarkdown(bundle: ExportBundle): string {
+  const lines: string[] = [
+    "# Mindful Reframe Export",
+    "",
+    `Exported ${formatDate(bundle.exportedAt)} for **${bundle.account.username}**.`,
+    "",
+  ];
+
+  if (bundle.intakeResponse) {
+    lines.push("## About You", "");
+    const intake = bundle.intakeResponse;
+    (Object.keys(intakeQuestions) as IntakeQuestionKey[]).forEach(key => {
+      lines.push(`**${intakeQuestions[key]}**`, "", intake[key], "");
+    });
+  }
+
+  lines.push("## Journal Sessions", "");
+  if (bundle.journalSessions.length === 0) {
+    lines.push("_No journal sessions._", "");
+  }
+
+  bundle.journalSessions.forEach(session => {
+    lines.push(`### ${formatDate(session.createdAt)}`, "");
+    if (session.journalEntry) {
+      lines.push(...session.journalEntry.split("\n").map(line => `> ${line}`), "");
+    } else {
+      lines.push(`_${METADATA_ONLY_NOTE}_`, "");
+      if (session.beliefSummary) lines.push(`Summary: ${session.beliefSummary}`, "");
+      if (session.primaryDistortions.length > 0) lines.push(`Patterns: ${session.primaryDistortions.join(", ")}`, "");
+    }
+
+    if (session.detectedThoughts.length > 0) {
+      lines.push("#### Thoughts Identified", "");
+      session.detectedThoughts.forEach(thought => {
+        lines.push(`- **${thought.distortion}**: "${thought.thought}"`);
+        if (thought.explanation) lines.push(`  - ${thought.explanation}`);
+      });
+      lines.push("");
+    }
+
+    session.reframingSessions.forEach(reframing => {
+      lines.push(`#### Reframing with ${reframingMethodName(reframing.reframingMethod)}`, "");
+      lines.push(`Thought: "${reframing.selectedThought}" (${reframing.distortionType})`, "");
+      reframing.chatHistory.forEach(message => {
+        lines.push(message.role === "system" ? `_${message.content}_` : `**${speaker(message)}:** ${message.content}`, "");
+      });
+      if (reframing.finalReframedThought) {
+        lines.push(`**Your reframed thought:** "${reframing.finalReframedThought}"`, "");
+      }
+      const distress = distressChange(reframing);
+      if (distress) lines.push(distress, "");
+      reframing.visualizations.forEach(visualization => {
+        lines.push(`##### Visualization: ${visualization.title}`, "");
+        visualization.steps.forEach((step, index) => lines.push(`${index + 1}. ${step.text}`));
+        lines.push("");
+      });
+    });
+  });
+
+  return lines.join("\n");
+}
+
+export function toPdf(bundle: ExportBundle): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 56, info: { Title: "Mindful Reframe Export" } });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const heading = (text: string, size: number) => {
+      doc.moveDown(0.5).font("Helvetica-Bold").fontSize(size).text(text).moveDown(0.3);
+      doc.font("Helvetica").fontSize(11);
+    };
+
+    doc.font("Helvetica-Bold").fontSize(22).text("Mindful Reframe Export");
+    doc.font("Helvetica").fontSize(10).fillColor("#666666")
+      .text(`Exported ${formatDate(bundle.exportedAt)} for ${bundle.account.username}`)
+      .fillColor("#000000");
+
+    if (bundle.intakeResponse) {
+      heading("About You", 16);
+      const intake = bundle.intakeResponse;
+      (Object.keys(intakeQuestions) as IntakeQuestionKey[]).forEach(key => {
+        doc.font("Helvetica-Bold").text(intakeQuestions[key]);
+        doc.font("Helvetica").text(intake[key]).moveDown(0.5);
+      });
+    }
+
+    heading("Journal Sessions", 16);
+    if (bundle.journalSessions.length === 0) {
+      doc.font("Helvetica-Oblique").text("No journal sessions.");
+    }
+
+    bundle.journalSessions.forEach(session => {
+      heading(formatDate(session.createdAt), 13);
+      if (session.journalEntry) {
+        doc.font("Helvetica-Oblique").text(session.journalEntry).font("Helvetica").moveDown(0.5);
+      } else {
+        doc.font("Helvetica-Oblique").fillColor("#555555").text(METADATA_ONLY_NOTE).fillColor("#000000").font("Helvetica");
+        if (session.beliefSummary) doc.text(`Summary: ${session.beliefSummary}`);
+        if (session.primaryDistortions.length > 0) doc.text(`Patterns: ${session.primaryDistortions.join(", ")}`);
+        doc.moveDown(0.5);
+      }
+
+      session.detectedThoughts.forEach(thought => {
+        doc.font("Helvetica-Bold").text(`${thought.distortion}: `, { continued: true })
+          .font("Helvetica").text(`"${thought.thought}"`);
+        if (thought.explanation) {
+          doc.fillColor("#555555").text(thought.explanation, { indent: 12 }).fillColor("#000000");
+        }
+        doc.moveDown(0.3);
+      });
+
+      session.reframingSessions.forEach(reframing => {
+        heading(`Reframing with ${reframingMethodName(reframing.reframingMethod)}`, 11);
+        reframing.chatHistory.forEach(message => {
+          if (message.role === "system") {
+            doc.font("Helvetica-Oblique").fillColor("#555555").text(message.content)
+              .fillColor("#000000").font("Helvetica").moveDown(0.2);
+            return;
+          }
+          doc.font("Helvetica-Bold").text(`${speaker(message)}: `, { continued: true })
+            .font("Helvetica").text(message.content).moveDown(0.2);
+        });
+        if (reframing.finalReframedThought) {
+          doc.moveDown(0.3).font("Helvetica-Bold").fillColor("#2f6b3a")
+            .text(`Your reframed thought: "${reframing.finalReframedThought}"`)
+            .fillColor("#000000").font("Helvetica");
+        }
+        const distress = distressChange(reframing);
+        if (distress) doc.moveDown(0.2).text(distress);
+        reframing.visualizations.forEach(visualization => {
+          heading(`Visualization: ${visualization.title}`, 11);
+          visualization.steps.forEach((step, index) => doc.text(`${index + 1}. ${step.text}`).moveDown(0.2));
+        });
+      });
+    });
+
+    doc.end();
+  });
+}
@@ -1,8 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { ensureTables } from "./migrate";
+import { assertSchemaUpToDate } from "./migrate";
+import { startRetentionScheduler } from "./retention";
 import { checkDatabaseConnection } from "./database-status";
+import { storageReady, startStorageHealthProbe } from "./storage";
 
 const app = express();
 app.use(express.json());
@@ -39,11 +41,21 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Check database connection and ensure tables exist
+  // Check database connection; a reachable database must have every migration applied
   const dbStatus = await checkDatabaseConnection();
-  if (dbStatus.connected) {
-    await ensureTables();
+  if (dbStatus.connected && process.env.DATABASE_URL) {
+    try {
+      await assertSchemaUpToDate(process.env.DATABASE_URL);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
   }
+
+  // Storage must settle on database vs memory before the session store is chosen
+  await storageReady;
+  startStorageHealthProbe();
+  startRetentionScheduler();
   
   const server = await registerRoutes(app);
 
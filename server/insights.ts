@@ -0,0 +1,152 @@
+import { format, startOfWeek } from "date-fns";
+import { storage } from "./storage";
+import { RULES } from "../shared/rules";
+import type { DetectedThoughtRecord, JournalSession, ReframingSession } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DistortionFrequency {
+  distortion: string;
+  count: number;
+}
+
+export interface MethodOutcome {
+  reframingMethod: string;
+  started: number;
+  completed: number;
+  /** Share of started sessions that were completed, 0-1 */
+  completionRate: number;
+  averageTurnsToCompletion: number | null;
+}
+
+export interface WeeklyProgress {
+  /** Monday of the week, yyyy-MM-dd */
+  weekStart: string;
+  reframingSessions: number;
+  completed: number;
+  averageTurnsToCompletion: number | null;
+  averageDistressBefore: number | null;
+  averageDistressAfter: number | null;
+  /** Mean of after - before over sessions rated both times; negative means less distress */
+  averageDistressChange: number | null;
+}
+
+export interface Insights {
+  /** Whether the full history is included or only the free window */
+  extended: boolean;
+  since: Date | null;
+  journalSessions: number;
+  reframingSessions: number;
+  completedReframingSessions: number;
+  averageTurnsToCompletion: number | null;
+  distortionFrequencies: DistortionFrequency[];
+  methodOutcomes: MethodOutcome[];
+  weekly: WeeklyProgress[];
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((total, value) => total + value, 0) / values.length) * 10) / 10;
+}
+
+function turnsToCompletion(sessions: ReframingSession[]): number[] {
+  return sessions.filter(session => session.isCompleted).map(session => session.turnCount);
+}
+
+function distressChanges(sessions: ReframingSession[]): number[] {
+  return sessions
+    .filter(session => session.distressScoreBefore !== null && session.distressScoreAfter !== null)
+    .map(session => session.distressScoreAfter! - session.distressScoreBefore!);
+}
+
+/**
+ * Count each detected distortion. Sessions reduced to metadata no longer have
+ * their per-thought labels, so their primary distortions count once each.
+ */
+function countDistortions(sessions: JournalSession[], thoughts: DetectedThoughtRecord[]): DistortionFrequency[] {
+  const counts = new Map<string, number>();
+  sessions.forEach(session => {
+    const sessionThoughts = thoughts.filter(thought => thought.journalSessionId === session.id);
+    const labels = sessionThoughts.length > 0
+      ? sessionThoughts.map(thought => thought.distortion)
+      : session.primaryDistortions;
+    labels.filter(Boolean).forEach(label => counts.set(label, (counts.get(label) || 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .map(([distortion, count]) => ({ distortion, count }))
+    .sort((a, b) => b.count - a.count || a.distortion.localeCompare(b.distortion));
+}
+
+function summarizeMethods(sessions: ReframingSession[]): MethodOutcome[] {
+  const byMethod = new Map<string, ReframingSession[]>();
+  sessions.forEach(session => {
+    byMethod.set(session.reframingMethod, [...(byMethod.get(session.reframingMethod) || []), session]);
+  });
+
+  return Array.from(byMethod.entries())
+    .map(([reframingMethod, methodSessions]) => {
+      const completed = methodSessions.filter(session => session.isCompleted).length;
+      return {
+        reframingMethod,
+        started: methodSessions.length,
+        completed,
+        completionRate: Math.round((completed / methodSessions.length) * 100) / 100,
+        averageTurnsToCompletion: average(turnsToCompletion(methodSessions)),
+      };
+    })
+    .sort((a, b) => b.started - a.started);
+}
+
+function summarizeWeeks(sessions: ReframingSession[]): WeeklyProgress[] {
+  const byWeek = new Map<string, ReframingSession[]>();
+  sessions.forEach(session => {
+    const week = format(startOfWeek(session.completedAt ?? session.createdAt, { weekStartsOn: 1 }), "yyyy-MM-dd");
+    byWeek.set(week, [...(byWeek.get(week) || []), session]);
+  });
+
+  return Array.from(byWeek.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, weekSessions]) => ({
+      weekStart,
+      reframingSessions: weekSessions.length,
+      completed: weekSessions.filter(session => session.isCompleted).length,
+      averageTurnsToCompletion: average(turnsToCompletion(weekSessions)),
+      averageDistressBefore: average(weekSessions.flatMap(session =>
+        session.distressScoreBefore === null ? [] : [session.distressScoreBefore])),
+      averageDistressAfter: average(weekSessions.flatMap(session =>
+        session.distressScoreAfter === null ? [] : [session.distressScoreAfter])),
+      averageDistressChange: average(distressChanges(weekSessions)),
+    }));
+}
+
+/**
+ * Aggregate a user's distortions and reframing outcomes. Without extended
+ * analytics only the last RULES.STORAGE.PREMIUM_FEATURES.freeAnalyticsWindowDays are used.
+ */
+export async function buildInsights(userId: number, extended: boolean, now: Date = new Date()): Promise<Insights> {
+  const since = extended
+    ? null
+    : new Date(now.getTime() - RULES.STORAGE.PREMIUM_FEATURES.freeAnalyticsWindowDays * DAY_MS);
+
+  const [allJournalSessions, allReframingSessions] = await Promise.all([
+    storage.getJournalSessionsByUserId(userId),
+    storage.getReframingSessionsByUserId(userId),
+  ]);
+  const inWindow = (createdAt: Date | null) => !since || (createdAt !== null && createdAt >= since);
+  const journalSessions = allJournalSessions.filter(session => inWindow(session.createdAt));
+  const reframingSessions = allReframingSessions.filter(session => inWindow(session.createdAt));
+  const thoughts = await storage.getDetectedThoughts(journalSessions.map(session => session.id));
+
+  return {
+    extended,
+    since,
+    journalSessions: journalSessions.length,
+    reframingSessions: reframingSessions.length,
+    completedReframingSessions: reframingSessions.filter(session => session.isCompleted).length,
+    averageTurnsToCompletion: average(turnsToCompletion(reframingSessions)),
+    distortionFrequencies: countDistortions(journalSessions, thoughts),
+    methodOutcomes: summarizeMethods(reframingSessions),
+    weekly: summarizeWeeks(reframingSessions),
+  };
+}
@@ -0,0 +1,286 @@
+import OpenAI from "openai";
+
+/**
+ * Token counts reported by the model for a single completion
+ */
+export interface AIUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LLMRequest {
+  /** The AI use case from RULES, e.g. guideReframingProcess */
+  operation: string;
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature: number;
+  /** Ask for a single JSON object as the reply */
+  json: boolean;
+}
+
+export interface LLMCompletion {
+  content: string | null;
+  usage?: AIUsage;
+  /** "length" when the reply was cut off at maxTokens */
+  finishReason?: string | null;
+}
+
+/**
+ * A chat-completion backend. stream() hands each piece of the reply to onDelta
+ * as it is generated and resolves with the whole completion.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  stream(request: LLMRequest, onDelta: (text: string) => void): Promise<LLMCompletion>;
+}
+
+function toUsage(model: string, usage?: OpenAI.CompletionUsage | null): AIUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    model,
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+/**
+ * Usage for a reply from a server that didn't report any, so budgets still count it
+ */
+function estimateUsage(model: string, request: LLMRequest, content: string | null): AIUsage {
+  const promptTokens = estimateTokens(request.messages.map(message => message.content).join("\n"));
+  const completionTokens = estimateTokens(content || "");
+  return { model, promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * OpenAI, or any server that speaks the same chat completions API (Ollama,
+ * vLLM, LM Studio) when given a baseURL
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+
+  constructor(private options: {
+    name: string;
+    apiKey: string;
+    baseURL?: string;
+    /** Replaces the RULES model names, which only exist on OpenAI */
+    model?: string;
+    /** Not every local server supports response_format */
+    jsonMode?: boolean;
+    /** Nor stream_options, which asks for usage at the end of a stream */
+    streamUsage?: boolean;
+  }) {
+    this.name = options.name;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  private toParams(request: LLMRequest) {
+    return {
+      model: this.options.model || request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.json && this.options.jsonMode !== false
+        ? { response_format: { type: "json_object" as const } }
+        : {}),
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const params = this.toParams(request);
+    const response = await this.client.chat.completions.create(params);
+    const content = response.choices[0]?.message.content ?? null;
+    const model = response.model || params.model;
+    return {
+      content,
+      usage: toUsage(model, response.usage) || estimateUsage(model, request, content),
+      finishReason: response.choices[0]?.finish_reason,
+    };
+  }
+
+  async stream(request: LLMRequest, onDelta: (text: string) => void): Promise<LLMCompletion> {
+    const params = this.toParams(request);
+    const stream = await this.client.chat.completions.create({
+      ...params,
+      stream: true,
+      ...(this.options.streamUsage !== false ? { stream_options: { include_usage: true } } : {}),
+    });
+
+    let content = "";
+    let usage: AIUsage | undefined;
+    let finishReason: string | null = null;
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      finishReason = chunk.choices[0]?.finish_reason ?? finishReason;
+      if (chunk.usage) {
+        usage = toUsage(chunk.model || params.model, chunk.usage);
+      }
+    }
+    return {
+      content: content || null,
+      usage: usage || estimateUsage(params.model, request, content),
+      finishReason,
+    };
+  }
+}
+
+export type LLMScript = (request: LLMRequest) => string;
+
+/**
+ * Canned replies so the journal analysis, conversation summaries, reframing
+ * chat and visualizations work end to end without a model. Chat sessions finish once
+ * the turn limit is reached.
+ */
+export const defaultScript: LLMScript = (request) => {
+  if (request.operation === "detectCognitiveDistortions") {
+    return JSON.stringify({
+      summary: "You're being hard on yourself about how things went and expecting the worst from here.",
+      detectedThoughts: [
+        {
+          thought: "I always mess things up.",
+          distortion: "Overgeneralization",
+          explanation: "One difficult moment is being treated as proof of a pattern.",
+        },
+        {
+          thought: "Everyone must think I'm useless.",
+          distortion: "Jumping to Conclusions",
+          explanation: "This assumes what others think without checking.",
+        },
+      ],
+    });
+  }
+
+  if (request.operation === "generateVisualizationPrompts") {
+    return JSON.stringify({
+      title: "Walking forward with a kinder thought",
+      steps: [
+        { text: "Settle into your seat and take a slow breath in, then a longer breath out.", pauseSeconds: 10 },
+        { text: "Imagine yourself somewhere you feel calm and at ease.", pauseSeconds: 15 },
+        { text: "Bring to mind the thought you reached today, and let it settle.", pauseSeconds: 15 },
+        { text: "When you're ready, gently bring your attention back to the room.", pauseSeconds: 5 },
+      ],
+    });
+  }
+
+  if (request.operation === "summarizeJournalEntries") {
+    return "The user has been examining the evidence for this thought and noticed some of it doesn't hold up.";
+  }
+
+  const system = request.messages.find(message => message.role === "system")?.content || "";
+  const isComplete = system.includes('"isComplete": true');
+  return JSON.stringify({
+    message: isComplete
+      ? "You've done thoughtful work here. You noticed the thought isn't the whole story."
+      : "That's worth noticing. What evidence do you have for and against this thought?",
+    isComplete,
+    finalReframedThought: isComplete ? "Some things went wrong, but that doesn't make me a failure." : null,
+    nextSuggestion: null,
+    showPacingOptions: system.includes('"showPacingOptions": true'),
+    reachedTurnLimit: isComplete,
+  });
+};
+
+/**
+ * Rough token count, about four characters per token, for budgeting and for
+ * providers that don't report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic offline provider for development and tests
+ */
+export class ScriptedProvider implements LLMProvider {
+  readonly name = "scripted";
+  /** Every request received, oldest first */
+  readonly requests: LLMRequest[] = [];
+
+  constructor(private script: LLMScript = defaultScript) {}
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    const content = this.script(request);
+    return {
+      content,
+      usage: estimateUsage("scripted", request, content),
+      finishReason: "stop",
+    };
+  }
+
+  async stream(request: LLMRequest, onDelta: (text: string) => void): Promise<LLMCompletion> {
+    const completion = await this.complete(request);
+    // Word-sized pieces, like a real stream
+    (completion.content || "").match(/\s*\S+/g)?.forEach(piece => onDelta(piece));
+    return completion;
+  }
+}
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Build the provider named by LLM_PROVIDER:
+ * - openai (default when OPENAI_API_KEY is set)
+ * - local: an OpenAI-compatible server at LLM_BASE_URL, using LLM_MODEL
+ * - scripted: canned offline replies (default in development without a key)
+ */
+function createProvider(): LLMProvider | null {
+  const configured = process.env.LLM_PROVIDER
+    || (process.env.OPENAI_API_KEY ? "openai" : process.env.NODE_ENV === "development" ? "scripted" : "openai");
+
+  switch (configured) {
+    case "openai":
+      if (!process.env.OPENAI_API_KEY) return null;
+      return new OpenAIProvider({ name: "openai", apiKey: process.env.OPENAI_API_KEY });
+    case "local":
+      if (!process.env.LLM_BASE_URL) return null;
+      return new OpenAIProvider({
+        name: "local",
+        // Local servers usually ignore the key, but the client requires one
+        apiKey: process.env.LLM_API_KEY || "local",
+        baseURL: process.env.LLM_BASE_URL,
+        model: process.env.LLM_MODEL,
+        jsonMode: process.env.LLM_JSON_MODE !== "false",
+        streamUsage: process.env.LLM_STREAM_USAGE !== "false",
+      });
+    case "scripted":
+      return new ScriptedProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${configured}"`);
+  }
+}
+
+/**
+ * The configured provider, or null when its settings (API key, base URL) are missing
+ */
+export function getLLMProvider(): LLMProvider | null {
+  if (!provider) {
+    provider = createProvider();
+    if (provider) {
+      console.log(`Using ${provider.name} LLM provider`);
+    }
+  }
+  return provider;
+}
+
+/**
+ * Swap the provider, e.g. for a ScriptedProvider with a custom script in tests
+ */
+export function setLLMProvider(next: LLMProvider | null): void {
+  provider = next;
+}
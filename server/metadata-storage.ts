@@ -0,0 +1,76 @@
+import { storage } from "./storage";
+import { RULES } from "../shared/rules";
+import type { JournalSession } from "@shared/schema";
+
+/**
+ * Whether a journal session keeps its raw entry and transcripts after completion
+ */
+export function keepsFullSession(session: JournalSession): boolean {
+  const rules = RULES.STORAGE.DEFAULT_STORAGE;
+  return !rules.storeEssentialMetadataOnly
+    || (rules.allowUserToFlagForFullStorage && session.flaggedForFullStorage);
+}
+
+// A journal session with thoughts left to reframe counts as left this long after its last completed reframe
+const LEFT_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether the user is done with a journal session: no reframe is in
+ * progress, and either every detected thought has a completed reframe or
+ * nothing has been completed for LEFT_AFTER_MS. Until then the entry,
+ * transcripts and detected thoughts stay, so the user can reread the
+ * conversation and pick another thought.
+ */
+async function isFinished(journalSessionId: number, now: Date): Promise<boolean> {
+  const reframes = await storage.getReframingSessionsByJournalSessionId(journalSessionId);
+  const completed = reframes.filter((session) => session.isCompleted);
+  if (completed.length === 0 || completed.length < reframes.length) {
+    return false;
+  }
+
+  const thoughts = await storage.getDetectedThoughts([journalSessionId]);
+  const allReframed = thoughts.every((thought) => completed.some(
+    (session) => session.detectedThoughtId === thought.id || session.selectedThought === thought.thought,
+  ));
+  const lastCompletedAt = Math.max(...completed.map((session) => (session.completedAt ?? session.createdAt).getTime()));
+  return allReframed || lastCompletedAt <= now.getTime() - LEFT_AFTER_MS;
+}
+
+/**
+ * Strip an unflagged journal session down to the fields in
+ * RULES.STORAGE.DEFAULT_STORAGE.metadataFields: the belief summary, primary
+ * distortions, distress scores and whether the reframes succeeded. The
+ * journal entry, detected thought quotes and chat transcripts are dropped.
+ */
+export async function reduceToMetadata(journalSessionId: number): Promise<boolean> {
+  const journalSession = await storage.getJournalSession(journalSessionId);
+  if (!journalSession || keepsFullSession(journalSession)) {
+    return false;
+  }
+
+  const reframes = await storage.getReframingSessionsByJournalSessionId(journalSessionId);
+  for (const reframe of reframes) {
+    await storage.updateReframingSession(reframe.id, { chatHistory: [], contextSummary: null, contextSummaryThrough: 0 });
+  }
+  await storage.updateJournalSession(journalSessionId, { journalEntry: null });
+  await storage.deleteDetectedThoughts(journalSessionId);
+  return true;
+}
+
+/**
+ * Reduce every journal session the user has finished with. Run by the
+ * retention job rather than on completion, so a just-finished conversation
+ * doesn't vanish from under the user.
+ */
+export async function reduceFinishedSessions(now: Date, dryRun: boolean): Promise<number[]> {
+  if (!RULES.STORAGE.DEFAULT_STORAGE.storeEssentialMetadataOnly) return [];
+
+  const reduced: number[] = [];
+  for (const session of await storage.getReducibleJournalSessions()) {
+    if (keepsFullSession(session) || !(await isFinished(session.id, now))) continue;
+    if (dryRun || await reduceToMetadata(session.id)) {
+      reduced.push(session.id);
+    }
+  }
+  return reduced;
+}
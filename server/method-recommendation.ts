@@ -0,0 +1,60 @@
+import { storage } from "./storage";
+import { REFRAMING_METHODS, matchDistortion, type ReframingMethod } from "../shared/distortions";
+import type { ReframingSession } from "@shared/schema";
+
+// Sessions needed before the user's own history counts as much as the catalog
+const HISTORY_HALF_WEIGHT_SESSIONS = 3;
+
+export interface MethodRecommendation {
+  reframingMethod: ReframingMethod;
+  /** 0-1, higher is a better fit */
+  score: number;
+  /** Listed by the distortion catalog as a good fit for this distortion */
+  suggestedForDistortion: boolean;
+  /** The user's earlier sessions on the same distortion with this method */
+  started: number;
+  completed: number;
+}
+
+function catalogScore(suggested: ReframingMethod[] | undefined, method: ReframingMethod): number {
+  if (!suggested) return 0.5;
+  const rank = suggested.indexOf(method);
+  if (rank === 0) return 1;
+  if (rank > 0) return 0.75;
+  return 0.25;
+}
+
+/**
+ * Rank every reframing method for a distortion. The catalog's suggestions set
+ * the starting order; as the user completes (or abandons) sessions on the same
+ * distortion, their own completion rate takes over.
+ */
+export async function recommendMethods(userId: number, distortionType: string): Promise<MethodRecommendation[]> {
+  const distortion = matchDistortion(distortionType);
+  const sameDistortion = (session: ReframingSession) => distortion
+    ? matchDistortion(session.distortionType)?.id === distortion.id
+    : session.distortionType === distortionType;
+
+  const history = (await storage.getReframingSessionsByUserId(userId)).filter(sameDistortion);
+
+  return REFRAMING_METHODS
+    .map(method => {
+      const sessions = history.filter(session => session.reframingMethod === method);
+      const started = sessions.length;
+      const completed = sessions.filter(session => session.isCompleted).length;
+
+      // Smoothed completion rate so a single session doesn't dominate
+      const historyScore = (completed + 1) / (started + 2);
+      const historyWeight = started / (started + HISTORY_HALF_WEIGHT_SESSIONS);
+      const score = (1 - historyWeight) * catalogScore(distortion?.suggestedMethods, method) + historyWeight * historyScore;
+
+      return {
+        reframingMethod: method,
+        score: Math.round(score * 100) / 100,
+        suggestedForDistortion: distortion?.suggestedMethods.includes(method) ?? false,
+        started,
+        completed,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
@@ -1,55 +1,365 @@
-import { neon } from "@neondatabase/serverless";
+import fs from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { readMigrationFiles, type MigrationMeta } from "drizzle-orm/migrator";
+import { getDatabase, type Database } from "./db";
 
-export async function ensureTables() {
-  if (!process.env.DATABASE_URL) {
-    console.log("No DATABASE_URL found, skipping table creation");
-    return; // Skip migration if no database URL
+const MIGRATIONS_FOLDER = path.resolve(process.cwd(), "migrations");
+const TRACKING_TABLE = "schema_migrations";
+const trackingTable = sql.identifier(TRACKING_TABLE);
+
+// The last migration the pre-migration bootstrap (upgradeLegacySchema) is equivalent to
+const BASELINE_TAG = "0001_broad_stranger";
+
+export interface Migration extends MigrationMeta {
+  tag: string;
+}
+
+export interface MigrationStatus {
+  applied: string[];
+  pending: Migration[];
+  /** Tables exist but nothing is tracked: created by the old ensureTables bootstrap or db:push */
+  legacy: boolean;
+}
+
+/**
+ * Thrown at startup when the database hasn't had every migration applied
+ */
+export class SchemaOutOfDateError extends Error {
+  constructor(public pending: string[]) {
+    super(`Database schema is behind: ${pending.length} pending migration(s) (${pending.join(", ")}). Run \`npm run db:migrate\`.`);
+    this.name = "SchemaOutOfDateError";
+  }
+}
+
+/**
+ * The migrations in migrations/, in journal order, with the statements split on breakpoints
+ */
+export function readMigrations(): Migration[] {
+  const journal = JSON.parse(fs.readFileSync(path.join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf8"));
+  const files = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  return files.map((file, index) => ({ ...file, tag: journal.entries[index].tag }));
+}
+
+async function ensureTrackingTable(db: Database) {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS ${trackingTable} (
+      id SERIAL PRIMARY KEY,
+      tag TEXT NOT NULL UNIQUE,
+      hash TEXT NOT NULL,
+      applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+}
+
+async function recordMigration(db: Database, migration: Migration) {
+  await db.execute(sql`INSERT INTO ${trackingTable} (tag, hash) VALUES (${migration.tag}, ${migration.hash})`);
+}
+
+export async function getMigrationStatus(db: Database): Promise<MigrationStatus> {
+  const { rows: [{ tracked }] } = await db.execute<{ tracked: boolean }>(
+    sql`SELECT to_regclass(${TRACKING_TABLE}) IS NOT NULL AS tracked`,
+  );
+  const applied = tracked
+    ? (await db.execute<{ tag: string }>(sql`SELECT tag FROM ${trackingTable} ORDER BY id`)).rows.map(row => row.tag)
+    : [];
+
+  const migrations = readMigrations();
+  const unknown = applied.filter(tag => !migrations.some(migration => migration.tag === tag));
+  if (unknown.length > 0) {
+    throw new Error(`Database has migrations this build doesn't know about (${unknown.join(", ")}); deploy a newer build`);
+  }
+
+  const { rows: [{ hasUsers }] } = await db.execute<{ hasUsers: boolean }>(
+    sql`SELECT to_regclass('users') IS NOT NULL AS "hasUsers"`,
+  );
+  return {
+    applied,
+    pending: migrations.filter(migration => !applied.includes(migration.tag)),
+    legacy: applied.length === 0 && hasUsers,
+  };
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction along with
+ * its tracking row. A database set up before migrations existed is first
+ * brought up to the baseline by the old bootstrap and marked as migrated up
+ * to BASELINE_TAG.
+ */
+export async function runMigrations(databaseUrl: string): Promise<string[]> {
+  const { db } = getDatabase(databaseUrl);
+  await ensureTrackingTable(db);
+
+  let status = await getMigrationStatus(db);
+  if (status.legacy) {
+    console.log(`Existing database without migration history, baselining at ${BASELINE_TAG}`);
+    await upgradeLegacySchema(db);
+    const baseline = status.pending.slice(0, status.pending.findIndex(migration => migration.tag === BASELINE_TAG) + 1);
+    await db.transaction(async (tx) => {
+      for (const migration of baseline) {
+        await recordMigration(tx, migration);
+      }
+    });
+    status = await getMigrationStatus(db);
+  }
+
+  for (const migration of status.pending) {
+    console.log(`Applying migration ${migration.tag}`);
+    await db.transaction(async (tx) => {
+      for (const statement of migration.sql.filter(statement => statement.trim())) {
+        await tx.execute(sql.raw(statement));
+      }
+      await recordMigration(tx, migration);
+    });
   }
+  return status.pending.map(migration => migration.tag);
+}
 
-  try {
-    const sql = neon(process.env.DATABASE_URL);
-    
-    // Test connection first
-    await sql`SELECT 1`;
-    
-    // Create users table
-    await sql`
-      CREATE TABLE IF NOT EXISTS users (
-        id SERIAL PRIMARY KEY,
-        username TEXT NOT NULL UNIQUE,
-        password TEXT NOT NULL
-      );
-    `;
-    
-    // Create intake_responses table
-    await sql`
-      CREATE TABLE IF NOT EXISTS intake_responses (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER REFERENCES users(id),
-        question1 TEXT NOT NULL,
-        question2 TEXT NOT NULL,
-        question3 TEXT NOT NULL,
-        question4 TEXT NOT NULL,
-        question5 TEXT NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-    `;
-
-    // Create journal_sessions table
-    await sql`
-      CREATE TABLE IF NOT EXISTS journal_sessions (
-        id SERIAL PRIMARY KEY,
-        user_id INTEGER REFERENCES users(id),
-        journal_entry TEXT NOT NULL,
-        detected_thoughts TEXT[] NOT NULL,
-        cognitive_distortions TEXT[] NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      );
-    `;
-    
-    console.log("Database tables ensured successfully");
-  } catch (error) {
-    console.warn("Failed to ensure database tables, continuing with in-memory storage:", error.message);
-    // Don't throw error, just continue with in-memory storage
+/**
+ * Startup check: throws SchemaOutOfDateError rather than let the server run
+ * against a schema that doesn't match shared/schema.ts
+ */
+export async function assertSchemaUpToDate(databaseUrl: string): Promise<void> {
+  const status = await getMigrationStatus(getDatabase(databaseUrl).db);
+  if (status.pending.length > 0) {
+    throw new SchemaOutOfDateError(status.pending.map(migration => migration.tag));
   }
-}
\ No newline at end of file
+}
+
+/**
+ * The idempotent bootstrap that managed the schema before versioned
+ * migrations, kept to bring those databases up to BASELINE_TAG. Don't add to
+ * it; schema changes go in a new migration.
+ */
+async function upgradeLegacySchema(db: Database) {
+  // Create users table
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS users (
+      id SERIAL PRIMARY KEY,
+      username TEXT NOT NULL UNIQUE,
+      password TEXT NOT NULL
+    );
+  `);
+  
+  // Create intake_responses table
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS intake_responses (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id),
+      question1 TEXT NOT NULL,
+      question2 TEXT NOT NULL,
+      question3 TEXT NOT NULL,
+      question4 TEXT NOT NULL,
+      question5 TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  // Create journal_sessions table
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS journal_sessions (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER REFERENCES users(id),
+      journal_entry TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+  
+  // Never created by the old bootstrap; databases that had it got it from drizzle-kit push
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS reframing_sessions (
+      id SERIAL PRIMARY KEY,
+      journal_session_id INTEGER NOT NULL REFERENCES journal_sessions(id),
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      selected_thought TEXT NOT NULL,
+      distortion_type TEXT NOT NULL,
+      reframing_method TEXT NOT NULL,
+      chat_history TEXT[] NOT NULL DEFAULT '{}',
+      final_reframed_thought TEXT,
+      is_completed BOOLEAN NOT NULL DEFAULT FALSE,
+      turn_count INTEGER NOT NULL DEFAULT 0,
+      max_turns INTEGER NOT NULL DEFAULT 12,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMP
+    );
+  `);
+
+  // Create token_usage table
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS token_usage (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      operation TEXT NOT NULL,
+      model TEXT NOT NULL,
+      prompt_tokens INTEGER NOT NULL DEFAULT 0,
+      completion_tokens INTEGER NOT NULL DEFAULT 0,
+      total_tokens INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+  
+  // Soft-delete columns for the account deletion grace period
+  await db.execute(sql`
+    ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS deletion_scheduled_for TIMESTAMP;
+  `);
+  await db.execute(sql`ALTER TABLE intake_responses ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;`);
+  await db.execute(sql`ALTER TABLE journal_sessions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;`);
+  await db.execute(sql`ALTER TABLE IF EXISTS reframing_sessions ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;`);
+
+  // Retention job bookkeeping
+  await db.execute(sql`
+    ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS last_active_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS inactivity_warning_sent_at TIMESTAMP;
+  `);
+  await db.execute(sql`ALTER TABLE journal_sessions ADD COLUMN IF NOT EXISTS flagged_for_full_storage BOOLEAN NOT NULL DEFAULT FALSE;`);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS retention_runs (
+      id SERIAL PRIMARY KEY,
+      dry_run BOOLEAN NOT NULL,
+      trigger TEXT NOT NULL,
+      journal_sessions_deleted INTEGER NOT NULL DEFAULT 0,
+      reframing_sessions_deleted INTEGER NOT NULL DEFAULT 0,
+      accounts_warned INTEGER NOT NULL DEFAULT 0,
+      accounts_deleted INTEGER NOT NULL DEFAULT 0,
+      details TEXT NOT NULL,
+      started_at TIMESTAMP NOT NULL,
+      finished_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+
+  // Metadata-only storage: the raw entry may be dropped, labels live on their own
+  await db.execute(sql`ALTER TABLE journal_sessions ALTER COLUMN journal_entry DROP NOT NULL;`);
+  await db.execute(sql`
+    ALTER TABLE journal_sessions
+      ADD COLUMN IF NOT EXISTS belief_summary TEXT,
+      ADD COLUMN IF NOT EXISTS primary_distortions TEXT[] NOT NULL DEFAULT '{}';
+  `);
+
+  // Detected thoughts get their own rows instead of parallel "Distortion: explanation" arrays
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS detected_thoughts (
+      id SERIAL PRIMARY KEY,
+      journal_session_id INTEGER NOT NULL REFERENCES journal_sessions(id),
+      position INTEGER NOT NULL,
+      thought TEXT NOT NULL,
+      distortion TEXT NOT NULL,
+      explanation TEXT NOT NULL DEFAULT ''
+    );
+  `);
+  await db.execute(sql`
+    ALTER TABLE IF EXISTS reframing_sessions
+      ADD COLUMN IF NOT EXISTS detected_thought_id INTEGER REFERENCES detected_thoughts(id) ON DELETE SET NULL;
+  `);
+  // Backfill from the legacy array columns, then drop them; runs once as a single statement
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'journal_sessions' AND column_name = 'cognitive_distortions'
+      ) THEN
+        UPDATE journal_sessions
+        SET primary_distortions = ARRAY(SELECT DISTINCT split_part(d, ': ', 1) FROM unnest(cognitive_distortions) AS d)
+        WHERE primary_distortions = '{}' AND cardinality(cognitive_distortions) > 0;
+
+        INSERT INTO detected_thoughts (journal_session_id, position, thought, distortion, explanation)
+        SELECT js.id, t.ord - 1, t.thought,
+          split_part(coalesce(js.cognitive_distortions[t.ord], ''), ': ', 1),
+          CASE WHEN position(': ' IN coalesce(js.cognitive_distortions[t.ord], '')) = 0 THEN ''
+            ELSE substr(js.cognitive_distortions[t.ord], position(': ' IN js.cognitive_distortions[t.ord]) + 2)
+          END
+        FROM journal_sessions js
+        CROSS JOIN LATERAL unnest(js.detected_thoughts) WITH ORDINALITY AS t(thought, ord);
+
+        IF to_regclass('reframing_sessions') IS NOT NULL THEN
+          UPDATE reframing_sessions rs
+          SET detected_thought_id = dt.id
+          FROM detected_thoughts dt
+          WHERE rs.detected_thought_id IS NULL
+            AND dt.journal_session_id = rs.journal_session_id
+            AND dt.thought = rs.selected_thought;
+        END IF;
+
+        ALTER TABLE journal_sessions DROP COLUMN detected_thoughts, DROP COLUMN cognitive_distortions;
+      END IF;
+    END $$;
+  `);
+
+  // Distress ratings captured around each reframing session
+  await db.execute(sql`
+    ALTER TABLE IF EXISTS reframing_sessions
+      ADD COLUMN IF NOT EXISTS distress_score_before INTEGER,
+      ADD COLUMN IF NOT EXISTS distress_score_after INTEGER;
+  `);
+
+  // Rolling summary of reframing chat turns beyond the context window
+  await db.execute(sql`
+    ALTER TABLE IF EXISTS reframing_sessions
+      ADD COLUMN IF NOT EXISTS context_summary TEXT,
+      ADD COLUMN IF NOT EXISTS context_summary_through INTEGER NOT NULL DEFAULT 0;
+  `);
+
+  // Crisis escalation: per-session safety mode and the reviewer queue
+  await db.execute(sql`ALTER TABLE IF EXISTS reframing_sessions ADD COLUMN IF NOT EXISTS safety_mode BOOLEAN NOT NULL DEFAULT FALSE;`);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS crisis_events (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      source TEXT NOT NULL,
+      journal_session_id INTEGER REFERENCES journal_sessions(id) ON DELETE SET NULL,
+      reframing_session_id INTEGER,
+      severity TEXT NOT NULL,
+      matched_rule TEXT NOT NULL,
+      matched_phrase TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      reviewer_notified_at TIMESTAMP,
+      reviewed_by TEXT,
+      review_note TEXT,
+      reviewed_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+  `);
+  // reframing_sessions may not exist yet on a fresh database
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF to_regclass('reframing_sessions') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'crisis_events_reframing_session_id_fkey'
+      ) THEN
+        ALTER TABLE crisis_events ADD CONSTRAINT crisis_events_reframing_session_id_fkey
+          FOREIGN KEY (reframing_session_id) REFERENCES reframing_sessions(id) ON DELETE SET NULL;
+      END IF;
+    END $$;
+  `);
+
+  // Guided visualizations generated from completed reframing sessions
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS visualizations (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id),
+      reframing_session_id INTEGER NOT NULL,
+      title TEXT NOT NULL,
+      reframed_thought TEXT NOT NULL,
+      steps TEXT NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      deleted_at TIMESTAMP
+    );
+  `);
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF to_regclass('reframing_sessions') IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'visualizations_reframing_session_id_fkey'
+      ) THEN
+        ALTER TABLE visualizations ADD CONSTRAINT visualizations_reframing_session_id_fkey
+          FOREIGN KEY (reframing_session_id) REFERENCES reframing_sessions(id);
+      END IF;
+    END $$;
+  `);
+
+  // Subscription plan for premium features
+  await db.execute(sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS plan TEXT NOT NULL DEFAULT 'free';`);
+}
@@ -1,20 +1,20 @@
-import OpenAI from "openai";
 import { RULES } from "../shared/rules";
 import { 
   isAllowedAIUseCase, 
   getAssistantTonePrompt, 
   getMaxTokensForOperation,
   getModelForTask,
-  isCrisisText,
   shouldBlockPromptInjection,
   sanitizeUserInput,
-  getCrisisResponse
+  getCrisisResponse,
+  findResponseSafetyIssues
 } from "../shared/rule-helpers";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getDistortionCatalog, matchDistortion } from "../shared/distortions";
+import { detectCrisis, type CrisisMatch } from "../shared/crisis";
+import { getLLMProvider, estimateTokens, type AIUsage, type LLMMessage, type LLMProvider, type LLMRequest } from "./llm-provider";
+import { fitToBudget, toLLMMessages, type ConversationSummary } from "./chat-context";
+import { visualizationStepSchema, type VisualizationStep } from "@shared/schema";
+import { z } from "zod";
 
 export interface DetectedThought {
   thought: string;
@@ -23,9 +23,12 @@ export interface DetectedThought {
 }
 
 export interface ChatMessage {
-  role: 'user' | 'assistant';
+  /** System entries are notes such as a change of reframing method, not model instructions */
+  role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  /** On method-change entries, the method switched to */
+  reframingMethod?: string;
 }
 
 export interface ReframingChatResponse {
@@ -35,11 +38,100 @@ export interface ReframingChatResponse {
   nextSuggestion?: string;
   showPacingOptions?: boolean;
   reachedTurnLimit?: boolean;
+  usage?: AIUsage;
+  /** Set when older turns were folded into the session's rolling summary */
+  summary?: ConversationSummary;
+  summaryUsage?: AIUsage;
+  /** Set when the user's message contained crisis language */
+  crisis?: CrisisMatch;
+}
+
+/** Where a streamed chat reply goes as it's generated */
+export interface ChatStream {
+  token(text: string): void;
+  /** Discard the text sent so far; the tokens that follow replace it */
+  reset(): void;
+}
+
+export interface GeneratedVisualization {
+  title: string;
+  steps: VisualizationStep[];
+  usage?: AIUsage;
 }
 
 export interface JournalAnalysis {
   summary: string;
   detectedThoughts: DetectedThought[];
+  usage?: AIUsage;
+  /** Set when the entry contained crisis language; there are no thoughts to reframe */
+  crisis?: CrisisMatch;
+}
+
+/**
+ * Keep only thoughts whose distortion maps onto the catalog, relabelled with
+ * the canonical name. Anything else is dropped rather than stored as free text.
+ */
+function toCatalogThoughts(thoughts: DetectedThought[]): DetectedThought[] {
+  return thoughts.flatMap(thought => {
+    const distortion = typeof thought.distortion === 'string' ? matchDistortion(thought.distortion) : undefined;
+    if (!distortion || !thought.thought) {
+      console.warn(`Dropping detected thought with unknown distortion "${thought.distortion}"`);
+      return [];
+    }
+    return [{ thought: thought.thought, distortion: distortion.name, explanation: thought.explanation || '' }];
+  });
+}
+
+// Where the streamed text can be released: after the last complete sentence or line
+function lastSentenceEnd(text: string): number {
+  let end = 0;
+  for (const match of Array.from(text.matchAll(/[.!?]["')\]]*\s+|\n/g))) {
+    end = match.index! + match[0].length;
+  }
+  return end;
+}
+
+/**
+ * Pull the "message" string out of a JSON completion as it streams in, so the
+ * text can be forwarded before the rest of the object arrives. Each call takes
+ * the next chunk and returns any newly decoded message text.
+ */
+function createMessageFieldReader(): (chunk: string) => string {
+  let buffer = '';
+  let position = -1;
+  let done = false;
+
+  return (chunk: string) => {
+    buffer += chunk;
+    if (done) return '';
+
+    if (position < 0) {
+      const start = buffer.match(/"message"\s*:\s*"/);
+      if (!start || start.index === undefined) return '';
+      position = start.index + start[0].length;
+    }
+
+    let text = '';
+    while (position < buffer.length) {
+      const char = buffer[position];
+      if (char === '"') {
+        done = true;
+        break;
+      }
+      if (char !== '\\') {
+        text += char;
+        position++;
+        continue;
+      }
+
+      // Wait for the whole escape sequence before decoding it
+      const escapeLength = buffer[position + 1] === 'u' ? 6 : 2;
+      if (position + escapeLength > buffer.length) break;
+      text += JSON.parse(`"${buffer.slice(position, position + escapeLength)}"`);
+      position += escapeLength;
+    }
+    return text;
+  };
 }
 
 export async function analyzeJournalEntry(
@@ -58,8 +150,9 @@ export async function analyzeJournalEntry(
     throw new Error("Cognitive distortion detection is not currently allowed");
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured");
+  const provider = getLLMProvider();
+  if (!provider) {
+    throw new Error("AI provider not configured");
   }
 
   // Check daily token limit
@@ -72,14 +165,12 @@ export async function analyzeJournalEntry(
   const sanitizedEntry = sanitizeUserInput(journalEntry);
   
   // Check for crisis indicators
-  if (isCrisisText(sanitizedEntry)) {
+  const crisis = detectCrisis(sanitizedEntry);
+  if (crisis) {
     return {
       summary: getCrisisResponse(),
-      detectedThoughts: [{
-        thought: "Crisis support needed",
-        distortion: "Crisis Support",
-        explanation: "Please reach out for professional support."
-      }]
+      detectedThoughts: [],
+      crisis
     };
   }
 
@@ -103,6 +194,10 @@ Context about the user from their intake:
   // Get assistant tone and persona from rules
   const assistantTonePrompt = getAssistantTonePrompt();
 
+  const distortionList = getDistortionCatalog()
+    .map(distortion => `- ${distortion.name}: ${distortion.description}`)
+    .join('\n');
+
   const prompt = `${contextPrompt}${assistantTonePrompt}
 
 Analyze the following journal entry and identify negative thought patterns and cognitive distortions.
@@ -116,23 +211,14 @@ Please respond with JSON in this exact format:
   "detectedThoughts": [
     {
       "thought": "The specific negative thought or belief",
-      "distortion": "The cognitive distortion name",
+      "distortion": "Exactly one of the cognitive distortion names listed below",
       "explanation": "A gentle, supportive explanation of how this distortion works"
     }
   ]
 }
 
-Cognitive Distortions to identify:
-- All-or-Nothing Thinking: Seeing things in extremes
-- Overgeneralization: Making sweeping conclusions from one event
-- Mental Filtering: Focusing only on negatives, ignoring positives
-- Disqualifying the Positive: Rejecting compliments or successes
-- Jumping to Conclusions: Mind reading or fortune telling
-- Magnification/Minimization: Catastrophizing or downplaying
-- Emotional Reasoning: "I feel it, therefore it's true"
-- Should Statements: Harsh self-expectations
-- Labeling: Defining yourself by mistakes
-- Personalization: Taking blame for things outside your control
+Cognitive Distortions to identify (use these names exactly):
+${distortionList}
 
 Guidelines:
 - Identify 2-4 most significant negative thoughts
@@ -145,8 +231,9 @@ Guidelines:
     const model = getModelForTask('detectCognitiveDistortions');
     const maxTokens = getMaxTokensForOperation('detectCognitiveDistortions');
 
-    const response = await openai.chat.completions.create({
-      model: model,
+    const response = await provider.complete({
+      operation: 'detectCognitiveDistortions',
+      model,
       messages: [
         {
           role: "system",
@@ -157,30 +244,156 @@ Guidelines:
           content: prompt
         }
       ],
-      response_format: { type: "json_object" },
+      json: true,
       temperature: 0.7,
-      max_tokens: maxTokens,
+      maxTokens,
     });
 
-    const content = response.choices[0].message.content;
+    const content = response.content;
     if (!content) {
-      throw new Error("No response from OpenAI");
+      throw new Error("No response from AI service");
     }
 
     const analysis: JournalAnalysis = JSON.parse(content);
     
     // Validate response structure
     if (!analysis.summary || !Array.isArray(analysis.detectedThoughts)) {
-      throw new Error("Invalid response format from OpenAI");
+      throw new Error("Invalid response format from AI service");
     }
 
-    return analysis;
+    return {
+      summary: analysis.summary,
+      detectedThoughts: toCatalogThoughts(analysis.detectedThoughts),
+      usage: response.usage,
+    };
   } catch (error) {
-    console.error("OpenAI analysis error:", error);
+    console.error("AI analysis error:", error);
     throw new Error("Failed to analyze journal entry");
   }
 }
 
+const SAFE_FALLBACK_MESSAGE = "Let's pause here for a moment. What feels most true to you about this thought right now?";
+
+function parseChatResponse(content: string): ReframingChatResponse {
+  const parsed: ReframingChatResponse = JSON.parse(content);
+  if (!parsed.message) {
+    throw new Error("Invalid response format");
+  }
+  return parsed;
+}
+
+function sumUsage(first?: AIUsage, second?: AIUsage): AIUsage | undefined {
+  if (!first || !second) return first || second;
+  return {
+    model: first.model,
+    promptTokens: first.promptTokens + second.promptTokens,
+    completionTokens: first.completionTokens + second.completionTokens,
+    totalTokens: first.totalTokens + second.totalTokens,
+  };
+}
+
+function chatSafetyIssues(response: ReframingChatResponse): string[] {
+  return [
+    ...findResponseSafetyIssues(response.message),
+    ...(response.finalReframedThought ? findResponseSafetyIssues(response.finalReframedThought) : []),
+  ];
+}
+
+function logModeration(operation: string, issues: string[], action: 'regenerated' | 'fallback') {
+  if (!RULES.AUDIT.LOGGING.logSecurityEvents) return;
+  // Only the reasons; the reply itself may quote the user
+  console.warn(`AI response moderated (${operation}, ${action}): ${issues.join('; ')}`);
+}
+
+/**
+ * Check a reply against RULES.AI.TONE.prohibited_phrases and PROHIBITED_OPERATIONS.
+ * An unsafe reply is regenerated once with the problems pointed out; if that
+ * still fails, a safe question replaces it and the session isn't completed.
+ */
+async function moderateChatResponse(
+  provider: LLMProvider,
+  request: LLMRequest,
+  content: string,
+  response: ReframingChatResponse
+): Promise<{ response: ReframingChatResponse; replaced: boolean; usage?: AIUsage }> {
+  const issues = chatSafetyIssues(response);
+  if (issues.length === 0) {
+    return { response, replaced: false };
+  }
+
+  let usage: AIUsage | undefined;
+  try {
+    const retry = await provider.complete({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: "assistant", content },
+        {
+          role: "system",
+          content: `That reply can't be shown because it contains: ${issues.join('; ')}. Rewrite it without diagnosing, prescribing or telling the user what they must do, and without dismissive phrases. Guide with a curious question instead. Respond with the same JSON format.`
+        }
+      ],
+    });
+    usage = retry.usage;
+
+    const regenerated = retry.content ? parseChatResponse(retry.content) : null;
+    if (regenerated && chatSafetyIssues(regenerated).length === 0) {
+      logModeration(request.operation, issues, 'regenerated');
+      return { response: regenerated, replaced: true, usage };
+    }
+  } catch (error) {
+    console.error("Failed to regenerate AI response:", error);
+  }
+
+  logModeration(request.operation, issues, 'fallback');
+  return {
+    response: {
+      message: SAFE_FALLBACK_MESSAGE,
+      isComplete: false,
+      showPacingOptions: response.showPacingOptions,
+      reachedTurnLimit: response.reachedTurnLimit,
+    },
+    replaced: true,
+    usage,
+  };
+}
+
+/**
+ * Fold chat turns that no longer fit the context window into the rolling
+ * summary of the conversation so far
+ */
+async function summarizeConversation(
+  provider: LLMProvider,
+  previousSummary: string | null,
+  messages: ChatMessage[]
+): Promise<{ text: string; usage?: AIUsage }> {
+  if (!isAllowedAIUseCase('summarizeJournalEntries')) {
+    throw new Error("Summarization is not currently allowed");
+  }
+
+  const transcript = messages
+    .map(message => `${message.role === 'system' ? 'note' : message.role}: ${message.content}`)
+    .join('\n');
+  const prompt = `Summarize this part of a CBT reframing conversation in under 150 words, written for the assistant continuing it. Keep the evidence, perspectives and insights the user has already explored, anything they found unhelpful, and any change of reframing method.
+${previousSummary ? `\nSummary of the conversation before this part:\n${previousSummary}\n` : ''}
+Conversation:
+${transcript}`;
+
+  const response = await provider.complete({
+    operation: 'summarizeJournalEntries',
+    model: getModelForTask('summarizeJournalEntries'),
+    messages: [{ role: "user", content: prompt }],
+    maxTokens: getMaxTokensForOperation('summarizeJournalEntries'),
+    temperature: 0.3,
+    json: false,
+  });
+
+  if (!response.content) {
+    throw new Error("No summary from AI service");
+  }
+  return { text: response.content.trim(), usage: response.usage };
+}
+
 /**
  * Chat-based reframing service for guiding users through CBT reframing
  */
@@ -199,15 +412,18 @@ export async function chatReframe(
     question4?: string;
     question5?: string;
   },
-  userTokensUsedToday: number = 0
+  userTokensUsedToday: number = 0,
+  stream?: ChatStream,
+  summary: ConversationSummary | null = null
 ): Promise<ReframingChatResponse> {
   // Check if operation is allowed by rules
   if (!isAllowedAIUseCase('guideReframingProcess')) {
     throw new Error("Reframing guidance is not currently allowed");
   }
 
-  if (!process.env.OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured");
+  const provider = getLLMProvider();
+  if (!provider) {
+    throw new Error("AI provider not configured");
   }
 
   // Check daily token limit
@@ -219,20 +435,38 @@ export async function chatReframe(
   // Sanitize and validate input
   const sanitizedMessage = sanitizeUserInput(userMessage);
   
+  // The text a streaming caller has been sent so far
+  let sent = '';
+  const send = (text: string) => {
+    sent += text;
+    stream?.token(text);
+  };
+  // Canned and fallback replies go out in one piece, replacing anything already streamed
+  const reply = (response: ReframingChatResponse): ReframingChatResponse => {
+    if (stream && sent) {
+      stream.reset();
+      sent = '';
+    }
+    send(response.message);
+    return response;
+  };
+
   // Check for crisis indicators
-  if (isCrisisText(sanitizedMessage)) {
-    return {
+  const crisis = detectCrisis(sanitizedMessage);
+  if (crisis) {
+    return reply({
       message: getCrisisResponse(),
-      isComplete: false
-    };
+      isComplete: false,
+      crisis
+    });
   }
 
   // Check for prompt injection attempts
   if (shouldBlockPromptInjection(sanitizedMessage)) {
-    return {
+    return reply({
       message: "I noticed something unusual in your message. Could you rephrase what you're thinking about this thought?",
       isComplete: false
-    };
+    });
   }
 
   try {
@@ -276,9 +510,10 @@ User background (use this to personalize your approach):
 
     const methodInfo = reframingMethods[reframingMethod as keyof typeof reframingMethods] || reframingMethods.evidenceCheck;
 
-    // Build conversation history for context
-    const conversationContext = chatHistory.length > 0 
-      ? `Previous conversation:\n${chatHistory.map(msg => `${msg.role}: ${msg.content}`).join('\n')}\n\n`
+    // The user changed method partway through; carry on rather than starting over
+    const lastEntry = chatHistory[chatHistory.length - 1];
+    const methodChangePrompt = lastEntry?.role === 'system' && lastEntry.reframingMethod
+      ? `The user has just switched to ${methodInfo.name}. Briefly acknowledge the new approach and build on what they have already explored instead of repeating earlier questions.`
       : '';
 
     // Check if we need to show pacing options (after every 6 messages = 3 full exchanges)
@@ -296,13 +531,12 @@ This thought shows signs of: ${distortionType}
 
 Current reframing method: ${methodInfo.name} - ${methodInfo.focus}
 Method guidance: ${methodInfo.guidance}
+${methodChangePrompt}
 
 Turn tracking: This is turn ${turnCount + 1} of maximum ${maxTurns} exchanges.
 
 ${contextPrompt}
 
-${conversationContext}
-
 Your role:
 1. Ask thoughtful questions to help them examine this thought
 2. Guide them to discover insights themselves (don't give direct answers)  
@@ -335,42 +569,232 @@ If they seem ready to finish naturally, set isComplete to true and include their
     const model = getModelForTask('guideReframingProcess');
     const maxTokens = getMaxTokensForOperation('guideReframingProcess');
 
-    const response = await openai.chat.completions.create({
+    // The conversation goes as message turns within RULES.MEMORY.CONTEXT.maxContextWindowTokens,
+    // leaving room for the system prompt, the new message, the reply and the summary
+    const historyBudget = RULES.MEMORY.CONTEXT.maxContextWindowTokens
+      - estimateTokens(systemPrompt)
+      - estimateTokens(sanitizedMessage)
+      - maxTokens
+      - getMaxTokensForOperation('summarizeJournalEntries');
+    const contextWindow = fitToBudget(chatHistory, summary, Math.max(historyBudget, 0));
+
+    let updatedSummary: ConversationSummary | undefined;
+    let summaryUsage: AIUsage | undefined;
+    if (contextWindow.overflow.length > 0) {
+      try {
+        const summarized = await summarizeConversation(provider, summary?.text ?? null, contextWindow.overflow);
+        updatedSummary = { text: summarized.text, through: contextWindow.recentFrom };
+        summaryUsage = summarized.usage;
+      } catch (error) {
+        // Carry on with the recent turns; the overflow is summarized on a later turn
+        console.error("Conversation summary error:", error);
+      }
+    }
+
+    const summaryText = updatedSummary?.text ?? summary?.text;
+    const messages: LLMMessage[] = [
+      { role: "system", content: systemPrompt },
+      ...(summaryText ? [{ role: "system" as const, content: `Summary of the earlier conversation:\n${summaryText}` }] : []),
+      ...toLLMMessages(contextWindow.recent),
+      { role: "user", content: sanitizedMessage }
+    ];
+
+    const request = {
+      operation: 'guideReframingProcess',
       model,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: sanitizedMessage }
-      ],
-      max_tokens: maxTokens,
+      messages,
+      maxTokens,
       temperature: 0.7,
-      response_format: { type: "json_object" }
-    });
+      json: true
+    };
+
+    const readMessage = createMessageFieldReader();
+    let received = '';
+    let blocked = false;
+
+    // When streaming, forward the message text a sentence at a time, each
+    // checked against the response safety rules first. Once anything fails
+    // the check nothing more goes out and moderation decides what is shown.
+    // The rest of the JSON is parsed once complete.
+    const response = stream
+      ? await provider.stream(request, (delta) => {
+          received += readMessage(delta);
+          const end = lastSentenceEnd(received);
+          if (blocked || end <= sent.length) return;
+          if (findResponseSafetyIssues(received.slice(0, end)).length > 0) {
+            blocked = true;
+            return;
+          }
+          send(received.slice(sent.length, end));
+        })
+      : await provider.complete(request);
+    const result = response.content;
 
-    const result = response.choices[0].message.content;
     if (!result) {
       throw new Error("No response from AI service");
     }
 
+    let parsedResponse: ReframingChatResponse;
     try {
-      const parsedResponse: ReframingChatResponse = JSON.parse(result);
-      
-      // Validate the response structure
-      if (!parsedResponse.message) {
-        throw new Error("Invalid response format");
-      }
-
-      return parsedResponse;
+      parsedResponse = parseChatResponse(result);
     } catch (parseError) {
       console.error("Failed to parse AI response:", parseError);
       throw new Error("AI service returned an invalid response format");
     }
+
+    const moderated = await moderateChatResponse(provider, request, result, parsedResponse);
+
+    // Finish the streamed text, or replace it if moderation changed the reply
+    if (stream) {
+      const message = moderated.response.message;
+      if (message.startsWith(sent)) {
+        if (message.length > sent.length) send(message.slice(sent.length));
+      } else {
+        reply(moderated.response);
+      }
+    }
+
+    return {
+      ...moderated.response,
+      usage: sumUsage(response.usage, moderated.usage),
+      summary: updatedSummary,
+      summaryUsage,
+    };
   } catch (error: any) {
     console.error("Reframing chat error:", error);
     
     // Provide fallback response
-    return {
+    return reply({
       message: "I'm having trouble right now. Let's take a step back - what first comes to mind when you think about this thought differently?",
       isComplete: false
-    };
+    });
+  }
+}
+const visualizationSchema = z.object({
+  title: z.string().min(1),
+  steps: z.array(visualizationStepSchema).min(3).max(10),
+});
+
+/**
+ * A plain script around the reframed thought, used when the generated one
+ * fails the response safety checks
+ */
+function fallbackVisualization(reframedThought: string): GeneratedVisualization {
+  return {
+    title: "Settling into a new perspective",
+    steps: [
+      { text: "Find a comfortable position and let your eyes close or soften their focus. Take a slow breath in, and a longer breath out.", pauseSeconds: 15 },
+      { text: "Picture a place where you feel at ease. Notice the light there, the sounds, the temperature of the air.", pauseSeconds: 20 },
+      { text: `In this place, bring to mind the thought you arrived at: "${reframedThought}"`, pauseSeconds: 15 },
+      { text: "Notice how your body feels as you hold this thought. Perhaps your shoulders drop a little, or your breathing slows.", pauseSeconds: 20 },
+      { text: "Imagine carrying this perspective into the next part of your day. What might be a little different?", pauseSeconds: 20 },
+      { text: "When you're ready, take one more deep breath and gently bring your attention back to the room around you.", pauseSeconds: 10 },
+    ],
+  };
+}
+
+/**
+ * Script a short guided visualization that helps the user rehearse a reframed
+ * thought, drawing imagery from what they value and enjoy
+ */
+export async function generateVisualization(
+  reframedThought: string,
+  originalThought: string,
+  userContext?: {
+    question1?: string;
+    question2?: string;
+    question3?: string;
+    question4?: string;
+    question5?: string;
+  },
+  userTokensUsedToday: number = 0
+): Promise<GeneratedVisualization> {
+  if (!isAllowedAIUseCase('generateVisualizationPrompts')) {
+    throw new Error("Visualization generation is not currently allowed");
+  }
+
+  const provider = getLLMProvider();
+  if (!provider) {
+    throw new Error("AI provider not configured");
+  }
+
+  const dailyLimit = RULES.COST_CONTROLS.TOKEN_LIMITS.dailyTokenCapPerUser;
+  if (userTokensUsedToday >= dailyLimit) {
+    throw new Error("Daily AI usage limit reached. Please try again tomorrow.");
   }
-}
\ No newline at end of file
+
+  // Only the forward-looking answers; the visualization shouldn't dwell on what's weighing on them
+  const contextPrompt = userContext
+    ? `
+Context about the user from their intake:
+- Ideal life vision: ${sanitizeUserInput(userContext.question3 || '')}
+- Sources of joy: ${sanitizeUserInput(userContext.question4 || '')}
+- Core values: ${sanitizeUserInput(userContext.question5 || '')}
+`
+    : "";
+
+  const prompt = `${getAssistantTonePrompt()}
+${contextPrompt}
+The user has just reframed a negative thought.
+Original thought: "${sanitizeUserInput(originalThought)}"
+Reframed thought: "${sanitizeUserInput(reframedThought)}"
+
+Write a calming guided visualization of about two minutes that helps them rehearse the reframed thought. Open with settling and breathing, build a scene from the things they value or enjoy, bring in the reframed thought in their own words, and close by returning gently to the present.
+
+Please respond with JSON in this exact format:
+{
+  "title": "A short, warm title",
+  "steps": [
+    { "text": "One or two sentences to read slowly", "pauseSeconds": 15 }
+  ]
+}
+
+Guidelines:
+- 4-8 steps, each followed by a pause of 5-30 seconds
+- Keep the whole script under 300 words
+- Invitational language ("you might notice", "imagine"), never instructions the user must follow
+- No medical or clinical claims`;
+
+  try {
+    const response = await provider.complete({
+      operation: 'generateVisualizationPrompts',
+      model: getModelForTask('generateVisualizationPrompts'),
+      messages: [
+        {
+          role: "system",
+          content: "You are Reframe, a compassionate AI assistant. Respond only with valid JSON following the exact format requested."
+        },
+        {
+          role: "user",
+          content: prompt
+        }
+      ],
+      json: true,
+      temperature: 0.8,
+      maxTokens: getMaxTokensForOperation('generateVisualizationPrompts'),
+    });
+
+    if (!response.content) {
+      throw new Error("No response from AI service");
+    }
+
+    // A script cut off at maxTokens is unparseable JSON at best and a half-finished session at worst
+    if (response.finishReason === 'length') {
+      console.warn("Visualization reply hit the token limit; using the fallback script");
+      return { ...fallbackVisualization(reframedThought), usage: response.usage };
+    }
+
+    const visualization = visualizationSchema.parse(JSON.parse(response.content));
+    const issues = [visualization.title, ...visualization.steps.map(step => step.text)]
+      .flatMap(text => findResponseSafetyIssues(text));
+    if (issues.length > 0) {
+      logModeration('generateVisualizationPrompts', issues, 'fallback');
+      return { ...fallbackVisualization(reframedThought), usage: response.usage };
+    }
+
+    return { ...visualization, usage: response.usage };
+  } catch (error) {
+    console.error("Visualization generation error:", error);
+    throw new Error("Failed to generate visualization");
+  }
+}
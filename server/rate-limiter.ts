@@ -0,0 +1,279 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { RULES } from "../shared/rules";
+import { getRateLimit } from "../shared/rule-helpers";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export type RateLimitScope = "user" | "ip";
+
+export interface RateLimitRule {
+  name: string;
+  scope: RateLimitScope;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitHit {
+  key: string;
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitRejection {
+  /** Which of the hits was at its limit */
+  index: number;
+  /** Milliseconds until that key allows a new hit */
+  retryAfterMs: number;
+}
+
+/**
+ * Backing store for rate limit counters. The in-memory store is fine for a
+ * single server process; a shared store (Redis, Postgres) can implement the
+ * same interface when the app runs on more than one instance, as long as
+ * hit() stays a single atomic step (a transaction or a script).
+ */
+export interface RateLimitStore {
+  /**
+   * Check every key and, only if all are under their limits, count the hit
+   * against all of them. Returns null when counted.
+   */
+  hit(hits: RateLimitHit[], now: number): Promise<RateLimitRejection | null>;
+  /** Increment an in-flight counter; returns false when already at `max` */
+  acquire(key: string, max: number): Promise<boolean>;
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Sliding window log kept in process memory
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+  private inFlight = new Map<string, number>();
+  private longestWindowMs = 0;
+
+  constructor(sweepIntervalMs: number = 10 * MINUTE_MS) {
+    // Drop keys whose hits have all aged out so idle users don't accumulate
+    setInterval(() => this.sweep(Date.now()), sweepIntervalMs).unref();
+  }
+
+  // Nothing here awaits, so no other request can run between the checks and the records
+  async hit(hits: RateLimitHit[], now: number): Promise<RateLimitRejection | null> {
+    for (let index = 0; index < hits.length; index++) {
+      const retryAfterMs = this.retryAfter(hits[index], now);
+      if (retryAfterMs > 0) {
+        return { index, retryAfterMs };
+      }
+    }
+
+    hits.forEach(({ key, windowMs }) => {
+      this.longestWindowMs = Math.max(this.longestWindowMs, windowMs);
+      const timestamps = this.hits.get(key) || [];
+      timestamps.push(now);
+      this.hits.set(key, timestamps);
+    });
+    return null;
+  }
+
+  private retryAfter({ key, limit, windowMs }: RateLimitHit, now: number): number {
+    const windowStart = now - windowMs;
+    const recent = (this.hits.get(key) || []).filter((timestamp) => timestamp > windowStart);
+
+    if (recent.length < limit) {
+      return 0;
+    }
+
+    // The window frees up a slot when the oldest hit that still counts ages out
+    const oldestCounted = recent[recent.length - limit];
+    return oldestCounted + windowMs - now;
+  }
+
+  async acquire(key: string, max: number): Promise<boolean> {
+    const current = this.inFlight.get(key) || 0;
+    if (current >= max) {
+      return false;
+    }
+    this.inFlight.set(key, current + 1);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    const current = this.inFlight.get(key) || 0;
+    if (current <= 1) {
+      this.inFlight.delete(key);
+    } else {
+      this.inFlight.set(key, current - 1);
+    }
+  }
+
+  private sweep(now: number) {
+    const cutoff = now - this.longestWindowMs;
+    this.hits.forEach((timestamps, key) => {
+      const recent = timestamps.filter((timestamp) => timestamp > cutoff);
+      if (recent.length === 0) {
+        this.hits.delete(key);
+      } else {
+        this.hits.set(key, recent);
+      }
+    });
+  }
+}
+
+let store: RateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Swap the backing store, e.g. for a shared store when running multiple instances
+ */
+export function setRateLimitStore(nextStore: RateLimitStore) {
+  store = nextStore;
+}
+
+export interface RateLimitErrorBody {
+  message: string;
+  code: "RATE_LIMITED";
+  rule: string;
+  scope: RateLimitScope;
+  limit: number;
+  windowSeconds: number;
+  retryAfterSeconds: number;
+}
+
+function sendRateLimited(res: Response, rule: RateLimitRule, retryAfterMs: number) {
+  const retryAfterSeconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  const body: RateLimitErrorBody = {
+    message: rule.scope === "ip"
+      ? "Too many requests from this network. Please wait a moment and try again."
+      : "You've reached the limit for this activity for now.",
+    code: "RATE_LIMITED",
+    rule: rule.name,
+    scope: rule.scope,
+    limit: rule.limit,
+    windowSeconds: Math.round(rule.windowMs / 1000),
+    retryAfterSeconds,
+  };
+
+  res.setHeader("Retry-After", retryAfterSeconds.toString());
+  res.status(429).json(body);
+}
+
+function keyFor(rule: RateLimitRule, req: Request): string | null {
+  if (rule.scope === "user") {
+    return req.user ? `${rule.name}:user:${req.user.id}` : null;
+  }
+  return `${rule.name}:ip:${req.ip}`;
+}
+
+/**
+ * Middleware enforcing every rule before the route runs. A request only
+ * counts against the limits once all of them have passed, so a rejected
+ * request never eats into another window. User-scoped rules must be mounted
+ * after requireAuth.
+ */
+export function rateLimit(...rules: RateLimitRule[]): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const applicable = rules.flatMap((rule) => {
+        const key = keyFor(rule, req);
+        return key ? [{ rule, hit: { key, limit: rule.limit, windowMs: rule.windowMs } }] : [];
+      });
+
+      const rejection = await store.hit(applicable.map(({ hit }) => hit), Date.now());
+      if (rejection) {
+        const { rule } = applicable[rejection.index];
+        console.warn(`Rate limit hit: ${rule.name} (${rule.scope})`);
+        return sendRateLimited(res, rule, rejection.retryAfterMs);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Middleware capping how many requests a user may have in flight at once.
+ * The slot is released when the response finishes or the client disconnects.
+ */
+export function concurrencyLimit(name: string, max: number): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) return next();
+
+    try {
+      const key = `${name}:user:${req.user.id}`;
+      if (!(await store.acquire(key, max))) {
+        const body: RateLimitErrorBody = {
+          message: "Please wait for your current response to finish before sending another.",
+          code: "RATE_LIMITED",
+          rule: name,
+          scope: "user",
+          limit: max,
+          windowSeconds: 0,
+          retryAfterSeconds: 1,
+        };
+        res.setHeader("Retry-After", "1");
+        return res.status(429).json(body);
+      }
+
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        store.release(key).catch((error) => console.error("Failed to release rate limit slot:", error));
+      };
+      res.on("finish", release);
+      res.on("close", release);
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+// ===========================
+// 🚦 RULES-BACKED LIMITERS
+// ===========================
+
+function userRule(operation: string, windowMs: number): RateLimitRule[] {
+  const limit = getRateLimit(operation);
+  return limit ? [{ name: operation, scope: "user", limit, windowMs }] : [];
+}
+
+function ipRules(): RateLimitRule[] {
+  const throttling = RULES.RATE_LIMITS.IP_THROTTLING;
+  if (!throttling.enabled) return [];
+
+  return [
+    { name: "ipRequestsPerMinute", scope: "ip", limit: throttling.requestsPerMinute, windowMs: MINUTE_MS },
+    { name: "ipRequestsPerHour", scope: "ip", limit: throttling.requestsPerHour, windowMs: HOUR_MS },
+  ];
+}
+
+/**
+ * Limits for the AI-backed routes, built from RULES.RATE_LIMITS
+ */
+export const rateLimiters = {
+  analyzeJournalEntry: rateLimit(
+    ...ipRules(),
+    ...userRule("gptCallsPerMinute", MINUTE_MS),
+    ...userRule("journalEntriesPerHour", HOUR_MS),
+  ),
+  startReframingSession: rateLimit(
+    ...ipRules(),
+    ...userRule("reframeSessionsPerDay", DAY_MS),
+  ),
+  reframingChat: rateLimit(
+    ...ipRules(),
+    ...userRule("gptCallsPerMinute", MINUTE_MS),
+  ),
+  generateVisualization: rateLimit(
+    ...ipRules(),
+    ...userRule("gptCallsPerMinute", MINUTE_MS),
+  ),
+  // maxConcurrentSessions caps the AI-backed requests a user has in flight
+  concurrentAIRequests: concurrencyLimit(
+    "maxConcurrentSessions",
+    getRateLimit("maxConcurrentSessions") || 1,
+  ),
+};
@@ -0,0 +1,180 @@
+import { storage } from "./storage";
+import { purgeDeletedAccounts } from "./account-deletion";
+import { reduceFinishedSessions } from "./metadata-storage";
+import { RULES } from "../shared/rules";
+import type { RetentionRun, User } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+export type RetentionTrigger = "scheduled" | "admin";
+
+export interface RetentionDetails {
+  journalSessionIds: number[];
+  reframingSessionIds: number[];
+  /** Journal sessions reduced to metadata, see server/metadata-storage.ts */
+  reducedJournalSessionIds: number[];
+  warnedUserIds: number[];
+  /** Accounts whose deletion grace period ended */
+  expiredDeletionUserIds: number[];
+  inactiveUserIds: number[];
+}
+
+export interface RetentionOptions {
+  dryRun: boolean;
+  trigger: RetentionTrigger;
+  now?: Date;
+}
+
+/**
+ * Delivers the "your account will be deleted" warning. There is no mail
+ * provider yet, so the default just logs; swap it in when there is one.
+ */
+export type InactivityNotifier = (user: User, deletionDate: Date) => Promise<void>;
+
+let notifyInactiveUser: InactivityNotifier = async (user, deletionDate) => {
+  console.log(`📬 Inactivity warning for user ${user.id}: account will be deleted after ${deletionDate.toISOString()}`);
+};
+
+export function setInactivityNotifier(notifier: InactivityNotifier) {
+  notifyInactiveUser = notifier;
+}
+
+function daysBefore(now: Date, days: number): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
+
+/**
+ * Unflagged journal sessions past RULES.STORAGE.SESSION_MANAGEMENT.autoDeleteUnflaggedSessionsDays.
+ * Their reframing sessions go with them.
+ */
+async function purgeExpiredSessions(now: Date, dryRun: boolean): Promise<number[]> {
+  const days = RULES.STORAGE.SESSION_MANAGEMENT.autoDeleteUnflaggedSessionsDays;
+  if (days <= 0) return [];
+
+  const expired = await storage.getExpiredJournalSessions(daysBefore(now, days));
+  const idsByUser = new Map<number, number[]>();
+  expired.forEach((session) => {
+    if (session.userId === null) return;
+    idsByUser.set(session.userId, [...(idsByUser.get(session.userId) || []), session.id]);
+  });
+
+  if (!dryRun) {
+    for (const [userId, sessionIds] of Array.from(idsByUser.entries())) {
+      await storage.deleteJournalSessions(userId, sessionIds);
+    }
+  }
+  return Array.from(idsByUser.values()).flat();
+}
+
+/**
+ * Reframing conversations that were never finished are dropped once they are
+ * older than RULES.MEMORY.CONTEXT.sessionMemoryRetentionDays
+ */
+async function purgeAbandonedReframing(now: Date, dryRun: boolean, purgedJournalIds: number[]): Promise<number[]> {
+  const days = RULES.MEMORY.CONTEXT.sessionMemoryRetentionDays;
+  if (days <= 0) return [];
+
+  const abandoned = (await storage.getAbandonedReframingSessions(daysBefore(now, days)))
+    .filter((session) => !purgedJournalIds.includes(session.journalSessionId));
+  const ids = abandoned.map((session) => session.id);
+
+  if (!dryRun) {
+    await storage.deleteReframingSessions(ids);
+  }
+  return ids;
+}
+
+/**
+ * Warn accounts approaching RULES.COMPLIANCE.DATA_MANAGEMENT.autoDeleteInactiveAccountsDays
+ * and delete the ones past it. With notifyBeforeAccountDeletion on, an account is only
+ * deleted once its warning is at least gracePeriodDays old.
+ */
+async function processInactiveAccounts(now: Date, dryRun: boolean) {
+  const { autoDeleteInactiveAccountsDays, notifyBeforeAccountDeletion, gracePeriodDays } = RULES.COMPLIANCE.DATA_MANAGEMENT;
+  const warnedUserIds: number[] = [];
+  const inactiveUserIds: number[] = [];
+  if (autoDeleteInactiveAccountsDays <= 0) return { warnedUserIds, inactiveUserIds };
+
+  const deleteCutoff = daysBefore(now, autoDeleteInactiveAccountsDays);
+  const warnCutoff = notifyBeforeAccountDeletion
+    ? daysBefore(now, Math.max(0, autoDeleteInactiveAccountsDays - gracePeriodDays))
+    : deleteCutoff;
+  const warningDeadline = daysBefore(now, gracePeriodDays);
+
+  const candidates = await storage.getInactiveUsers(warnCutoff);
+  for (const user of candidates) {
+    const warningServed = !notifyBeforeAccountDeletion
+      || (user.inactivityWarningSentAt !== null && user.inactivityWarningSentAt <= warningDeadline);
+
+    if (user.lastActiveAt < deleteCutoff && warningServed) {
+      inactiveUserIds.push(user.id);
+      if (!dryRun) await storage.hardDeleteUser(user.id);
+    } else if (notifyBeforeAccountDeletion && !user.inactivityWarningSentAt) {
+      warnedUserIds.push(user.id);
+      if (!dryRun) {
+        const deletionDate = new Date(Math.max(
+          user.lastActiveAt.getTime() + autoDeleteInactiveAccountsDays * DAY_MS,
+          now.getTime() + gracePeriodDays * DAY_MS,
+        ));
+        await notifyInactiveUser(user, deletionDate);
+        await storage.markInactivityWarningSent(user.id, now);
+      }
+    }
+  }
+
+  return { warnedUserIds, inactiveUserIds };
+}
+
+/**
+ * Apply every retention rule once and record what was (or, in a dry run, would be) removed
+ */
+export async function runRetention({ dryRun, trigger, now = new Date() }: RetentionOptions): Promise<RetentionRun> {
+  const journalSessionIds = await purgeExpiredSessions(now, dryRun);
+  const reframingSessionIds = await purgeAbandonedReframing(now, dryRun, journalSessionIds);
+  const reducedJournalSessionIds = await reduceFinishedSessions(now, dryRun);
+  const expiredDeletionUserIds = await purgeDeletedAccounts(now, dryRun);
+  const { warnedUserIds, inactiveUserIds } = await processInactiveAccounts(now, dryRun);
+
+  const details: RetentionDetails = {
+    journalSessionIds,
+    reframingSessionIds,
+    reducedJournalSessionIds,
+    warnedUserIds,
+    expiredDeletionUserIds,
+    inactiveUserIds,
+  };
+
+  const run = await storage.recordRetentionRun({
+    dryRun,
+    trigger,
+    journalSessionsDeleted: journalSessionIds.length,
+    reframingSessionsDeleted: reframingSessionIds.length,
+    accountsWarned: warnedUserIds.length,
+    accountsDeleted: expiredDeletionUserIds.length + inactiveUserIds.length,
+    details: JSON.stringify(details),
+    startedAt: now,
+  });
+
+  console.log(
+    `🧹 Retention run${dryRun ? " (dry run)" : ""}: ${run.journalSessionsDeleted} journal sessions, ` +
+    `${run.reframingSessionsDeleted} reframing sessions, ${run.accountsDeleted} accounts deleted; ` +
+    `${reducedJournalSessionIds.length} journal sessions reduced to metadata; ${run.accountsWarned} accounts warned`,
+  );
+  return run;
+}
+
+/**
+ * Run retention on an interval for as long as the process runs. Set
+ * RETENTION_DRY_RUN=true to only record what would be removed.
+ */
+export function startRetentionScheduler(intervalMs: number = RETENTION_INTERVAL_MS) {
+  const dryRun = process.env.RETENTION_DRY_RUN === "true";
+  const run = () => {
+    runRetention({ dryRun, trigger: "scheduled" })
+      .catch((error) => console.error("Retention run failed:", error));
+  };
+
+  run();
+  setInterval(run, intervalMs).unref();
+}
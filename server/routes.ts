@@ -1,11 +1,24 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertIntakeResponseSchema, insertJournalSessionSchema, insertReframingSessionSchema } from "@shared/schema";
+import { insertIntakeResponseSchema, insertJournalSessionSchema, insertReframingSessionSchema, distressScoreSchema, CRISIS_REVIEW_STATUSES } from "@shared/schema";
 import { z } from "zod";
 import { getDatabaseStatus } from "./database-status";
-import { analyzeJournalEntry, chatReframe, type ChatMessage } from "./openai-service";
+import { setupAuth, requireAuth, requireLogin, requireAdmin, comparePasswords, toPublicUser } from "./auth";
+import { requestAccountDeletion, cancelAccountDeletion } from "./account-deletion";
+import { runRetention } from "./retention";
+import { rateLimiters } from "./rate-limiter";
+import { getTokensUsedToday, recordAIUsage, getTokenUsageSummary } from "./token-usage";
+import { analyzeJournalEntry, chatReframe, generateVisualization, type ChatMessage } from "./openai-service";
+import { getLLMProvider } from "./llm-provider";
+import { parseChatHistory, toDetectedThoughts, toReframingSummary, toVisualizationResponse } from "./session-format";
+import { buildExportBundle, toMarkdown, toPdf } from "./export-service";
+import { buildInsights } from "./insights";
+import { canUseFeature } from "./subscription";
+import { recommendMethods } from "./method-recommendation";
+import { escalateCrisis, reviewCrisisEvent } from "./crisis";
 import { RULES } from "../shared/rules";
+import { REFRAMING_METHODS, reframingMethodName } from "../shared/distortions";
 import { 
   validateJournalEntry, 
   hasReachedSessionLimit, 
@@ -13,19 +26,28 @@ import {
   hasReachedDailyTokenLimit 
 } from "../shared/rule-helpers";
 
+const SAFETY_MODE_ERROR = "This session is paused so you can reach out for support";
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session cookie auth - sets up /api/auth/* and populates req.user
+  setupAuth(app);
+
   // Database status endpoint
   app.get("/api/status", (req, res) => {
     const status = getDatabaseStatus();
     res.json({
       server: "running",
-      database: status
+      database: status,
+      storage: storage.getStatus()
     });
   });
   // Create intake response
-  app.post("/api/intake", async (req, res) => {
+  app.post("/api/intake", requireAuth, async (req, res) => {
     try {
-      const validatedData = insertIntakeResponseSchema.parse(req.body);
+      const validatedData = insertIntakeResponseSchema.parse({
+        ...req.body,
+        userId: req.user!.id,
+      });
       const intakeResponse = await storage.createIntakeResponse(validatedData);
       res.json(intakeResponse);
     } catch (error) {
@@ -37,16 +59,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get intake response by user ID
-  app.get("/api/intake/:userId", async (req, res) => {
+  // Get the current user's intake response
+  app.get("/api/intake", requireAuth, async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      if (isNaN(userId)) {
-        res.status(400).json({ message: "Invalid user ID" });
-        return;
-      }
-
-      const intakeResponse = await storage.getIntakeResponseByUserId(userId);
+      const intakeResponse = await storage.getIntakeResponseByUserId(req.user!.id);
       if (!intakeResponse) {
         res.status(404).json({ message: "Intake response not found" });
         return;
@@ -59,15 +75,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analyze journal entry and create session
-  app.post("/api/sessions/analyze", async (req, res) => {
+  app.post("/api/sessions/analyze", requireAuth, rateLimiters.analyzeJournalEntry, rateLimiters.concurrentAIRequests, async (req, res) => {
     try {
-      const { journalEntry, userId } = z.object({
+      const userId = req.user!.id;
+      const { journalEntry, flaggedForFullStorage } = z.object({
         journalEntry: z.string().min(10, "Journal entry must be at least 10 characters"),
-        userId: z.number().optional()
+        flaggedForFullStorage: z.boolean().default(false),
       }).parse(req.body);
 
-      if (!process.env.OPENAI_API_KEY) {
-        res.status(500).json({ message: "OpenAI API not configured" });
+      if (!getLLMProvider()) {
+        res.status(500).json({ message: "AI provider not configured" });
         return;
       }
 
@@ -78,60 +95,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
-      // Check session limits if user is provided
-      if (userId) {
-        const existingSessions = await storage.getJournalSessionsByUserId(userId);
-        if (hasReachedSessionLimit(existingSessions.length)) {
-          const behavior = getSessionCapBehavior();
-          res.status(429).json({ 
-            message: "Session limit reached. Please delete some sessions or upgrade your account.",
-            sessionCount: existingSessions.length,
-            maxSessions: RULES.STORAGE.SESSION_MANAGEMENT.maxSavedSessionsPerUser,
-            canExport: behavior.allowExport
-          });
-          return;
-        }
+      // Check session limits
+      const existingSessions = await storage.getJournalSessionsByUserId(userId);
+      if (hasReachedSessionLimit(existingSessions.length)) {
+        const behavior = getSessionCapBehavior();
+        res.status(429).json({ 
+          message: "Session limit reached. Please delete some sessions or upgrade your account.",
+          sessionCount: existingSessions.length,
+          maxSessions: RULES.STORAGE.SESSION_MANAGEMENT.maxSavedSessionsPerUser,
+          canExport: behavior.allowExport
+        });
+        return;
       }
 
       // Get user context from intake if available
       let userContext = undefined;
-      if (userId) {
-        const intakeResponse = await storage.getIntakeResponseByUserId(userId);
-        if (intakeResponse) {
-          userContext = {
-            question1: intakeResponse.question1,
-            question2: intakeResponse.question2,
-            question3: intakeResponse.question3,
-            question4: intakeResponse.question4,
-            question5: intakeResponse.question5,
-          };
-        }
+      const intakeResponse = await storage.getIntakeResponseByUserId(userId);
+      if (intakeResponse) {
+        userContext = {
+          question1: intakeResponse.question1,
+          question2: intakeResponse.question2,
+          question3: intakeResponse.question3,
+          question4: intakeResponse.question4,
+          question5: intakeResponse.question5,
+        };
       }
 
-      // Check daily token usage (mock implementation for now - would need actual tracking)
-      const userTokensUsedToday = 0; // TODO: Implement actual token tracking per user
+      // Check daily token usage against the per-user cap
+      const userTokensUsedToday = await getTokensUsedToday(userId);
+      if (hasReachedDailyTokenLimit(userTokensUsedToday)) {
+        res.status(429).json({ message: "Daily AI usage limit reached. Please try again tomorrow." });
+        return;
+      }
       
       // Analyze with OpenAI
       const analysis = await analyzeJournalEntry(journalEntry, userContext, userTokensUsedToday);
+      await recordAIUsage(userId, 'detectCognitiveDistortions', analysis.usage);
 
       // Create session record
       const sessionData = insertJournalSessionSchema.parse({
-        userId: userId || null,
+        userId,
         journalEntry,
-        detectedThoughts: analysis.detectedThoughts.map(t => t.thought),
-        cognitiveDistortions: analysis.detectedThoughts.map(t => `${t.distortion}: ${t.explanation}`),
+        beliefSummary: analysis.summary,
+        primaryDistortions: Array.from(new Set(analysis.detectedThoughts.map(t => t.distortion))),
+        flaggedForFullStorage: RULES.STORAGE.DEFAULT_STORAGE.allowUserToFlagForFullStorage && flaggedForFullStorage,
       });
 
       const session = await storage.createJournalSession(sessionData);
+      const thoughts = await storage.createDetectedThoughts(analysis.detectedThoughts.map((t, position) => ({
+        journalSessionId: session.id,
+        position,
+        thought: t.thought,
+        distortion: t.distortion,
+        explanation: t.explanation,
+      })));
+
+      if (analysis.crisis) {
+        await escalateCrisis({ userId, source: "journal", match: analysis.crisis, journalSessionId: session.id });
+      }
 
       res.json({
         sessionId: session.id,
         summary: analysis.summary,
-        detectedThoughts: analysis.detectedThoughts
+        detectedThoughts: toDetectedThoughts(thoughts, session.id),
+        flaggedForFullStorage: session.flaggedForFullStorage,
+        crisis: !!analysis.crisis,
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else if (error instanceof Error && error.message.includes("Daily AI usage limit reached")) {
+        res.status(429).json({ message: error.message });
       } else {
         console.error("Session analysis error:", error);
         res.status(500).json({ message: error instanceof Error ? error.message : "Failed to analyze journal entry" });
@@ -139,24 +173,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get journal sessions for user
-  app.get("/api/sessions/:userId", async (req, res) => {
+  // List the current user's journal sessions, newest first, with their reframing sessions
+  app.get("/api/sessions", requireAuth, async (req, res) => {
     try {
-      const userId = parseInt(req.params.userId);
-      if (isNaN(userId)) {
-        res.status(400).json({ message: "Invalid user ID" });
-        return;
+      const userId = req.user!.id;
+      const query = z.object({
+        limit: z.coerce.number().int().min(1).max(50).default(10),
+        offset: z.coerce.number().int().min(0).default(0),
+        from: z.coerce.date().optional(),
+        to: z.coerce.date().optional(),
+        distortion: z.string().min(1).optional(),
+      }).parse(req.query);
+
+      // Without lazy loading the whole history comes back as one page
+      const lazyLoading = RULES.STORAGE.SESSION_MANAGEMENT.enableLazyLoadingForPastSessions;
+      const options = lazyLoading
+        ? query
+        : { ...query, offset: 0, limit: Number.MAX_SAFE_INTEGER };
+
+      const [page, reframingSessions] = await Promise.all([
+        storage.listJournalSessions(userId, options),
+        storage.getReframingSessionsByUserId(userId),
+      ]);
+      const thoughts = await storage.getDetectedThoughts(page.sessions.map(session => session.id));
+
+      const sessions = page.sessions.map(session => ({
+        id: session.id,
+        journalEntry: session.journalEntry,
+        beliefSummary: session.beliefSummary,
+        primaryDistortions: session.primaryDistortions,
+        flaggedForFullStorage: session.flaggedForFullStorage,
+        createdAt: session.createdAt,
+        detectedThoughts: toDetectedThoughts(thoughts, session.id),
+        reframingSessions: reframingSessions
+          .filter(reframing => reframing.journalSessionId === session.id)
+          .map(toReframingSummary),
+      }));
+
+      const nextOffset = options.offset + page.sessions.length;
+      res.json({
+        sessions,
+        total: page.total,
+        nextOffset: nextOffset < page.total ? nextOffset : null,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else {
+        console.error("Error listing sessions:", error);
+        res.status(500).json({ message: "Internal server error" });
       }
+    }
+  });
 
-      const sessions = await storage.getJournalSessionsByUserId(userId);
-      res.json(sessions);
+  // Distortion labels that appear in the current user's sessions, for filtering
+  app.get("/api/sessions/distortions", requireAuth, async (req, res) => {
+    try {
+      const sessions = await storage.getJournalSessionsByUserId(req.user!.id);
+      const distortions = new Set<string>();
+      sessions.forEach(session => {
+        session.primaryDistortions.forEach(distortion => distortions.add(distortion));
+      });
+      res.json(Array.from(distortions).sort());
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
   // Get specific journal session
-  app.get("/api/sessions/detail/:sessionId", async (req, res) => {
+  app.get("/api/sessions/detail/:sessionId", requireAuth, async (req, res) => {
     try {
       const sessionId = parseInt(req.params.sessionId);
       if (isNaN(sessionId)) {
@@ -165,61 +250,409 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const session = await storage.getJournalSession(sessionId);
-      if (!session) {
+      // Security: report sessions owned by someone else as missing
+      if (!session || session.userId !== req.user!.id) {
         res.status(404).json({ message: "Session not found" });
         return;
       }
 
-      res.json(session);
+      const [thoughts, reframingSessions] = await Promise.all([
+        storage.getDetectedThoughts([session.id]),
+        storage.getReframingSessionsByJournalSessionId(session.id),
+      ]);
+
+      res.json({
+        ...session,
+        detectedThoughts: toDetectedThoughts(thoughts, session.id),
+        reframingSessions: reframingSessions.map(reframing => ({
+          ...toReframingSummary(reframing),
+          chatHistory: parseChatHistory(reframing.chatHistory),
+        })),
+      });
     } catch (error) {
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  // Delete one of the current user's journal sessions along with its reframing sessions
+  app.delete("/api/sessions/:sessionId", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        res.status(400).json({ message: "Invalid session ID" });
+        return;
+      }
+
+      const deleted = await storage.deleteJournalSessions(req.user!.id, [sessionId]);
+      if (deleted === 0) {
+        res.status(404).json({ message: "Session not found" });
+        return;
+      }
+
+      res.json({ deleted });
+    } catch (error) {
+      console.error("Error deleting session:", error);
+      res.status(500).json({ message: "Failed to delete session" });
+    }
+  });
+
+  // Flag a session to keep its full text instead of only metadata
+  app.patch("/api/sessions/:sessionId", requireAuth, async (req, res) => {
+    if (!RULES.STORAGE.DEFAULT_STORAGE.allowUserToFlagForFullStorage) {
+      return res.status(403).json({ message: "Keeping full sessions is not available" });
+    }
+
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        res.status(400).json({ message: "Invalid session ID" });
+        return;
+      }
+
+      const { flaggedForFullStorage } = z.object({
+        flaggedForFullStorage: z.boolean(),
+      }).parse(req.body);
+
+      const session = await storage.getJournalSession(sessionId);
+      if (!session || session.userId !== req.user!.id) {
+        res.status(404).json({ message: "Session not found" });
+        return;
+      }
+
+      const updated = await storage.updateJournalSession(sessionId, { flaggedForFullStorage });
+      res.json({ id: sessionId, flaggedForFullStorage: updated?.flaggedForFullStorage ?? flaggedForFullStorage });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else {
+        console.error("Error updating session:", error);
+        res.status(500).json({ message: "Failed to update session" });
+      }
+    }
+  });
+
+  // Delete several journal sessions at once, e.g. from the session-cap dialog
+  app.post("/api/sessions/bulk-delete", requireAuth, async (req, res) => {
+    try {
+      const { sessionIds } = z.object({
+        sessionIds: z.array(z.number().int()).min(1).max(100),
+      }).parse(req.body);
+
+      const deleted = await storage.deleteJournalSessions(req.user!.id, Array.from(new Set(sessionIds)));
+      res.json({ deleted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else {
+        console.error("Error deleting sessions:", error);
+        res.status(500).json({ message: "Failed to delete sessions" });
+      }
+    }
+  });
+
+  // Today's AI token usage for the current user, so the UI can warn before the cap
+  app.get("/api/usage/today", requireAuth, async (req, res) => {
+    try {
+      const summary = await getTokenUsageSummary(req.user!.id);
+      res.json(summary);
+    } catch (error) {
+      console.error("Error fetching token usage:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Download everything we hold for the current user, or just the chosen sessions
+  app.get("/api/export", requireAuth, async (req, res) => {
+    if (!RULES.COMPLIANCE.USER_RIGHTS.allowDataExport) {
+      return res.status(403).json({ message: "Data export is not available" });
+    }
+
+    try {
+      const { format, sessionIds } = z.object({
+        format: z.enum(["json", "markdown", "pdf"]).default("json"),
+        sessionIds: z.string()
+          .transform((value) => value.split(",").map((id) => Number(id)))
+          .pipe(z.array(z.number().int().positive()).min(1).max(100))
+          .optional(),
+      }).parse(req.query);
+
+      const bundle = await buildExportBundle(req.user!.id, sessionIds);
+      const filename = `mindful-reframe-export-${bundle.exportedAt.slice(0, 10)}`;
+
+      if (format === "markdown") {
+        res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.md"`);
+        return res.send(toMarkdown(bundle));
+      }
+
+      if (format === "pdf") {
+        const pdf = await toPdf(bundle);
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="${filename}.pdf"`);
+        return res.send(pdf);
+      }
+
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}.json"`);
+      res.json(bundle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid export options", errors: error.errors });
+      } else {
+        console.error("Error exporting data:", error);
+        res.status(500).json({ message: "Failed to export your data" });
+      }
+    }
+  });
+
+  // Distortion and reframing trends; extended analytics cover the full history
+  app.get("/api/insights", requireAuth, async (req, res) => {
+    try {
+      const insights = await buildInsights(req.user!.id, canUseFeature(req.user!, "analytics"));
+      res.json(insights);
+    } catch (error) {
+      console.error("Error building insights:", error);
+      res.status(500).json({ message: "Failed to load insights" });
+    }
+  });
+
+  // ===========================
+  // 👤 ACCOUNT ROUTES
+  // ===========================
+
+  // Ask for the account to be deleted; everything is hidden now and removed after the grace period
+  app.post("/api/account/deletion", requireAuth, async (req, res) => {
+    if (!RULES.COMPLIANCE.USER_RIGHTS.allowDataDeletion) {
+      return res.status(403).json({ message: "Account deletion is not available" });
+    }
+
+    try {
+      const { password } = z.object({ password: z.string().min(1) }).parse(req.body);
+      if (!(await comparePasswords(password, req.user!.password))) {
+        return res.status(400).json({ message: "Incorrect password" });
+      }
+
+      const user = await requestAccountDeletion(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else {
+        console.error("Error requesting account deletion:", error);
+        res.status(500).json({ message: "Failed to delete account" });
+      }
+    }
+  });
+
+  // Cancel a pending deletion while the grace period is still running
+  app.delete("/api/account/deletion", requireLogin, async (req, res) => {
+    try {
+      if (!req.user!.deletedAt) {
+        return res.status(400).json({ message: "Your account is not scheduled for deletion" });
+      }
+
+      const user = await cancelAccountDeletion(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error cancelling account deletion:", error);
+      res.status(500).json({ message: "Failed to cancel account deletion" });
+    }
+  });
+
+  // ===========================
+  // 🛠️ ADMIN ROUTES
+  // ===========================
+
+  // Run the retention job now; pass { dryRun: true } to see what it would remove
+  app.post("/api/admin/retention/run", requireAdmin, async (req, res) => {
+    try {
+      const { dryRun } = z.object({ dryRun: z.boolean().default(false) }).parse(req.body ?? {});
+      const run = await runRetention({ dryRun, trigger: "admin" });
+      res.json({ ...run, details: JSON.parse(run.details) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else {
+        console.error("Retention run failed:", error);
+        res.status(500).json({ message: "Retention run failed" });
+      }
+    }
+  });
+
+  // Most recent retention runs, newest first
+  app.get("/api/admin/retention/runs", requireAdmin, async (req, res) => {
+    try {
+      const runs = await storage.getRetentionRuns(20);
+      res.json(runs.map(run => ({ ...run, details: JSON.parse(run.details) })));
+    } catch (error) {
+      console.error("Error fetching retention runs:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Crisis events waiting for (or past) human review, newest first
+  app.get("/api/admin/crisis-events", requireAdmin, async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(CRISIS_REVIEW_STATUSES).optional() }).parse(req.query);
+      res.json(await storage.getCrisisEvents(status));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else {
+        console.error("Error fetching crisis events:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
+  // Acknowledge or resolve a crisis event; resolving can reopen the locked reframing session
+  app.post("/api/admin/crisis-events/:id/review", requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid crisis event ID" });
+      }
+
+      const review = z.object({
+        status: z.enum(["acknowledged", "resolved"]),
+        note: z.string().max(2000).optional(),
+        releaseSession: z.boolean().default(false),
+      }).parse(req.body);
+
+      const event = await reviewCrisisEvent(id, { ...review, reviewedBy: req.user!.username });
+      if (!event) {
+        return res.status(404).json({ message: "Crisis event not found" });
+      }
+      res.json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      } else {
+        console.error("Error reviewing crisis event:", error);
+        res.status(500).json({ message: "Internal server error" });
+      }
+    }
+  });
+
   // ===========================
   // 💬 REFRAMING SESSION ROUTES
   // ===========================
 
+  // Rank reframing methods for a distortion, for the method picker
+  app.get("/api/reframing/recommendations", requireAuth, async (req, res) => {
+    try {
+      const { distortion } = z.object({ distortion: z.string().min(1) }).parse(req.query);
+      res.json(await recommendMethods(req.user!.id, distortion));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", errors: error.errors });
+      }
+      console.error("Error recommending reframing methods:", error);
+      res.status(500).json({ error: "Failed to recommend reframing methods" });
+    }
+  });
+
   // Start a new reframing session
-  app.post("/api/reframing/start", async (req, res) => {
+  app.post("/api/reframing/start", requireAuth, rateLimiters.startReframingSession, async (req, res) => {
     try {
-      const createReframingSchema = insertReframingSessionSchema.extend({
+      // Either point at a detected thought by id or pass the thought text and distortion
+      const createReframingSchema = insertReframingSessionSchema.omit({ userId: true }).extend({
         journalSessionId: z.number(),
-        userId: z.number(),
-        selectedThought: z.string().min(1),
-        distortionType: z.string().min(1),
-        reframingMethod: z.enum(['evidenceCheck', 'alternativePerspectives', 'balancedThinking', 'compassionateSelf', 'actionOriented']),
-      });
+        detectedThoughtId: z.number().int().positive().optional(),
+        selectedThought: z.string().min(1).optional(),
+        distortionType: z.string().min(1).optional(),
+        reframingMethod: z.enum(REFRAMING_METHODS),
+        distressScoreBefore: distressScoreSchema,
+      }).omit({ distressScoreAfter: true, contextSummary: true, contextSummaryThrough: true, safetyMode: true }).refine(
+        data => data.detectedThoughtId !== undefined || (data.selectedThought && data.distortionType),
+        { message: "Provide detectedThoughtId or selectedThought and distortionType" },
+      );
 
-      const validatedData = createReframingSchema.parse(req.body);
+      const { detectedThoughtId, ...validatedData } = createReframingSchema.parse(req.body);
+
+      let thought = { selectedThought: validatedData.selectedThought!, distortionType: validatedData.distortionType! };
+      let linkedThoughtId: number | null = null;
+      if (detectedThoughtId !== undefined) {
+        const detected = await storage.getDetectedThought(detectedThoughtId);
+        if (detected && detected.journalSessionId === validatedData.journalSessionId) {
+          thought = { selectedThought: detected.thought, distortionType: detected.distortion };
+          linkedThoughtId = detected.id;
+        } else if (!validatedData.selectedThought || !validatedData.distortionType) {
+          // Without the text in the body there's nothing to fall back to
+          return res.status(404).json({ error: "Detected thought not found" });
+        }
+      }
 
       // Apply rules validation
-      const validation = validateJournalEntry(validatedData.selectedThought);
+      const validation = validateJournalEntry(thought.selectedThought);
       if (!validation.isValid) {
         return res.status(400).json({ error: validation.errors[0] });
       }
 
+      // Security: the journal session being reframed must belong to the user
+      const journalSession = await storage.getJournalSession(validatedData.journalSessionId);
+      if (!journalSession || journalSession.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Journal session not found" });
+      }
+
+      // Ranked from the history before this session so it doesn't count as abandoned
+      const recommendations = await recommendMethods(req.user!.id, thought.distortionType);
+
       // Create new reframing session
       const session = await storage.createReframingSession({
         ...validatedData,
+        ...thought,
+        detectedThoughtId: linkedThoughtId,
+        userId: req.user!.id,
         chatHistory: [],
         isCompleted: false,
       });
 
-      res.json({ sessionId: session.id, message: "Reframing session started successfully" });
+      res.json({
+        sessionId: session.id,
+        message: "Reframing session started successfully",
+        recommendations,
+      });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", errors: error.errors });
+      }
       console.error("Error starting reframing session:", error);
       res.status(500).json({ error: "Failed to start reframing session" });
     }
   });
 
-  // Chat in a reframing session
-  app.post("/api/reframing/:sessionId/chat", async (req, res) => {
+  // Chat in a reframing session. The streaming variant sends the assistant
+  // message as server-sent "token" events ("reset" discards the text so far
+  // when a moderated reply replaces it), then the same JSON body the plain
+  // endpoint returns as a final "complete" event.
+  const handleReframingChat = (stream: boolean) => async (req: Request, res: Response) => {
+    // Headers go out with the first event, so errors before then keep their status code
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.headersSent) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive",
+          "X-Accel-Buffering": "no",
+        });
+      }
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
     try {
       const sessionId = parseInt(req.params.sessionId);
-      const { message, userId } = req.body;
+      const userId = req.user!.id;
+      const { message } = req.body;
 
-      if (isNaN(sessionId) || !message || !userId) {
+      if (isNaN(sessionId) || !message) {
         return res.status(400).json({ error: "Missing required fields" });
       }
 
@@ -238,17 +671,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "This reframing session is already completed" });
       }
 
+      if (session.safetyMode) {
+        return res.status(423).json({ error: SAFETY_MODE_ERROR, safetyMode: true });
+      }
+
       // Get user context for personalization
       const userContext = await storage.getIntakeResponseByUserId(userId);
 
       // Parse existing chat history
-      const chatHistory: ChatMessage[] = session.chatHistory.map(msg => {
-        try {
-          return typeof msg === 'string' ? JSON.parse(msg) : msg;
-        } catch {
-          return { role: 'user', content: msg, timestamp: new Date() };
-        }
-      });
+      const chatHistory = parseChatHistory(session.chatHistory);
 
       // Call AI reframing service with turn tracking
       const response = await chatReframe(
@@ -260,8 +691,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         session.turnCount || 0,
         session.maxTurns || 12,
         userContext || undefined,
-        0 // TODO: Implement token tracking per user
+        await getTokensUsedToday(userId),
+        stream
+          ? { token: (text) => sendEvent("token", { text }), reset: () => sendEvent("reset", {}) }
+          : undefined,
+        session.contextSummary
+          ? { text: session.contextSummary, through: session.contextSummaryThrough }
+          : null
       );
+      await recordAIUsage(userId, 'guideReframingProcess', response.usage);
+      await recordAIUsage(userId, 'summarizeJournalEntries', response.summaryUsage);
 
       // Update chat history
       const newUserMessage: ChatMessage = {
@@ -285,6 +724,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         turnCount: (session.turnCount || 0) + 2  // +2 because we add both user and assistant messages
       };
 
+      if (response.summary) {
+        updates.contextSummary = response.summary.text;
+        updates.contextSummaryThrough = response.summary.through;
+      }
+
       if (response.isComplete && response.finalReframedThought) {
         updates.isCompleted = true;
         updates.finalReframedThought = response.finalReframedThought;
@@ -293,7 +737,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       await storage.updateReframingSession(sessionId, updates);
 
-      res.json({
+      if (response.crisis) {
+        await escalateCrisis({
+          userId,
+          source: "reframing",
+          match: response.crisis,
+          journalSessionId: session.journalSessionId,
+          reframingSessionId: sessionId,
+        });
+      }
+
+      const result = {
         message: response.message,
         isComplete: response.isComplete,
         finalReframedThought: response.finalReframedThought,
@@ -301,28 +755,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
         showPacingOptions: response.showPacingOptions,
         reachedTurnLimit: response.reachedTurnLimit,
         turnCount: updates.turnCount,
-        maxTurns: session.maxTurns || 12
-      });
+        maxTurns: session.maxTurns || 12,
+        safetyMode: !!response.crisis
+      };
+
+      if (stream) {
+        sendEvent("complete", result);
+        return res.end();
+      }
+      res.json(result);
 
     } catch (error: any) {
       console.error("Error in reframing chat:", error);
-      
-      if (error.message?.includes("Daily AI usage limit reached")) {
-        return res.status(429).json({ error: error.message });
+
+      const status = error.message?.includes("Daily AI usage limit reached") ? 429 : 500;
+      const body = { error: status === 429 ? error.message : "Failed to process reframing chat" };
+
+      // Once the stream has started the status code is already sent
+      if (res.headersSent) {
+        sendEvent("error", body);
+        return res.end();
       }
-      
-      res.status(500).json({ error: "Failed to process reframing chat" });
+      res.status(status).json(body);
+    }
+  };
+
+  app.post("/api/reframing/:sessionId/chat", requireAuth, rateLimiters.reframingChat, rateLimiters.concurrentAIRequests, handleReframingChat(false));
+  app.post("/api/reframing/:sessionId/chat/stream", requireAuth, rateLimiters.reframingChat, rateLimiters.concurrentAIRequests, handleReframingChat(true));
+
+  // Switch an in-progress session to another method, keeping the conversation so far
+  app.post("/api/reframing/:sessionId/method", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+
+      const { reframingMethod } = z.object({ reframingMethod: z.enum(REFRAMING_METHODS) }).parse(req.body);
+
+      const session = await storage.getReframingSessionById(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Reframing session not found" });
+      }
+
+      // Security: Ensure user owns this session
+      if (session.userId !== req.user!.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      if (session.isCompleted) {
+        return res.status(400).json({ error: "This reframing session is already completed" });
+      }
+
+      if (session.safetyMode) {
+        return res.status(423).json({ error: SAFETY_MODE_ERROR, safetyMode: true });
+      }
+
+      if (session.reframingMethod === reframingMethod) {
+        return res.status(400).json({ error: "The session already uses this method" });
+      }
+
+      const methodChange: ChatMessage = {
+        role: 'system',
+        content: `Switched from ${reframingMethodName(session.reframingMethod)} to ${reframingMethodName(reframingMethod)}`,
+        timestamp: new Date(),
+        reframingMethod,
+      };
+      const chatHistory = [...parseChatHistory(session.chatHistory), methodChange];
+
+      await storage.updateReframingSession(sessionId, {
+        reframingMethod,
+        chatHistory: chatHistory.map(msg => JSON.stringify(msg)),
+      });
+
+      res.json({ ...session, reframingMethod, chatHistory });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", errors: error.errors });
+      }
+      console.error("Error switching reframing method:", error);
+      res.status(500).json({ error: "Failed to switch reframing method" });
+    }
+  });
+
+  // Record how distressing the thought feels once the session is done
+  app.patch("/api/reframing/:sessionId", requireAuth, async (req, res) => {
+    try {
+      const sessionId = parseInt(req.params.sessionId);
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
+      }
+
+      const { distressScoreAfter } = z.object({ distressScoreAfter: distressScoreSchema }).parse(req.body);
+
+      const session = await storage.getReframingSessionById(sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Reframing session not found" });
+      }
+
+      // Security: Ensure user owns this session
+      if (session.userId !== req.user!.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      if (!session.isCompleted) {
+        return res.status(400).json({ error: "Distress can only be rated after the session is completed" });
+      }
+
+      await storage.updateReframingSession(sessionId, { distressScoreAfter });
+      res.json(toReframingSummary({ ...session, distressScoreAfter }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", errors: error.errors });
+      }
+      console.error("Error updating reframing session:", error);
+      res.status(500).json({ error: "Failed to update reframing session" });
     }
   });
 
   // Get reframing session details
-  app.get("/api/reframing/:sessionId", async (req, res) => {
+  app.get("/api/reframing/:sessionId", requireAuth, async (req, res) => {
     try {
       const sessionId = parseInt(req.params.sessionId);
-      const userId = parseInt(req.query.userId as string);
+      const userId = req.user!.id;
 
-      if (isNaN(sessionId) || isNaN(userId)) {
-        return res.status(400).json({ error: "Invalid session ID or user ID" });
+      if (isNaN(sessionId)) {
+        return res.status(400).json({ error: "Invalid session ID" });
       }
 
       const session = await storage.getReframingSessionById(sessionId);
@@ -337,13 +895,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Parse chat history for frontend
-      const chatHistory = session.chatHistory.map(msg => {
-        try {
-          return typeof msg === 'string' ? JSON.parse(msg) : msg;
-        } catch {
-          return { role: 'user', content: msg, timestamp: new Date() };
-        }
-      });
+      const chatHistory = parseChatHistory(session.chatHistory);
 
       res.json({
         ...session,
@@ -355,6 +907,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Script a guided visualization from a completed reframing session
+  app.post("/api/visualizations", requireAuth, rateLimiters.generateVisualization, rateLimiters.concurrentAIRequests, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const { reframingSessionId } = z.object({ reframingSessionId: z.number().int().positive() }).parse(req.body);
+
+      if (!canUseFeature(req.user!, "visualization")) {
+        return res.status(403).json({ error: "Guided visualizations are part of the paid plan", feature: "visualization" });
+      }
+
+      const session = await storage.getReframingSessionById(reframingSessionId);
+      if (!session || session.userId !== userId) {
+        return res.status(404).json({ error: "Reframing session not found" });
+      }
+
+      if (session.safetyMode) {
+        return res.status(423).json({ error: SAFETY_MODE_ERROR, safetyMode: true });
+      }
+
+      if (!session.isCompleted || !session.finalReframedThought) {
+        return res.status(400).json({ error: "Finish reframing this thought before creating a visualization" });
+      }
+
+      const userTokensUsedToday = await getTokensUsedToday(userId);
+      if (hasReachedDailyTokenLimit(userTokensUsedToday)) {
+        return res.status(429).json({ error: "Daily AI usage limit reached. Please try again tomorrow." });
+      }
+
+      const intakeResponse = await storage.getIntakeResponseByUserId(userId);
+      const generated = await generateVisualization(
+        session.finalReframedThought,
+        session.selectedThought,
+        intakeResponse || undefined,
+        userTokensUsedToday,
+      );
+      await recordAIUsage(userId, 'generateVisualizationPrompts', generated.usage);
+
+      const visualization = await storage.createVisualization({
+        userId,
+        reframingSessionId,
+        title: generated.title,
+        reframedThought: session.finalReframedThought,
+        steps: JSON.stringify(generated.steps),
+      });
+
+      res.status(201).json(toVisualizationResponse(visualization));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", errors: error.errors });
+      }
+      console.error("Error generating visualization:", error);
+      const status = error.message?.includes("Daily AI usage limit reached") ? 429 : 500;
+      res.status(status).json({ error: status === 429 ? error.message : "Failed to generate visualization" });
+    }
+  });
+
+  // Saved visualizations, newest first
+  app.get("/api/visualizations", requireAuth, async (req, res) => {
+    try {
+      const visualizations = await storage.getVisualizationsByUserId(req.user!.id);
+      res.json(visualizations.map(toVisualizationResponse));
+    } catch (error) {
+      console.error("Error fetching visualizations:", error);
+      res.status(500).json({ error: "Failed to fetch visualizations" });
+    }
+  });
+
+  app.get("/api/visualizations/:id", requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ error: "Invalid visualization ID" });
+      }
+
+      const visualization = await storage.getVisualization(id);
+      if (!visualization || visualization.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Visualization not found" });
+      }
+
+      res.json(toVisualizationResponse(visualization));
+    } catch (error) {
+      console.error("Error fetching visualization:", error);
+      res.status(500).json({ error: "Failed to fetch visualization" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,57 @@
+import type { DetectedThoughtRecord, ReframingSession, Visualization, VisualizationStep } from "@shared/schema";
+import type { ChatMessage, DetectedThought } from "./openai-service";
+
+/**
+ * Chat history is stored as JSON strings; fall back to plain text for rows that aren't
+ */
+export function parseChatHistory(history: string[]): ChatMessage[] {
+  return history.map(msg => {
+    try {
+      return typeof msg === 'string' ? JSON.parse(msg) : msg;
+    } catch {
+      return { role: 'user', content: msg, timestamp: new Date() };
+    }
+  });
+}
+
+export interface SavedDetectedThought extends DetectedThought {
+  id: number;
+}
+
+/**
+ * The thoughts detected in one journal session, in the order they were found
+ */
+export function toDetectedThoughts(thoughts: DetectedThoughtRecord[], journalSessionId: number): SavedDetectedThought[] {
+  return thoughts
+    .filter(thought => thought.journalSessionId === journalSessionId)
+    .sort((a, b) => a.position - b.position)
+    .map(({ id, thought, distortion, explanation }) => ({ id, thought, distortion, explanation }));
+}
+
+/**
+ * Reframing session fields shown in session lists (no chat history)
+ */
+export function toReframingSummary(session: ReframingSession) {
+  return {
+    id: session.id,
+    detectedThoughtId: session.detectedThoughtId,
+    selectedThought: session.selectedThought,
+    distortionType: session.distortionType,
+    reframingMethod: session.reframingMethod,
+    finalReframedThought: session.finalReframedThought,
+    isCompleted: session.isCompleted,
+    turnCount: session.turnCount,
+    distressScoreBefore: session.distressScoreBefore,
+    distressScoreAfter: session.distressScoreAfter,
+    createdAt: session.createdAt,
+    completedAt: session.completedAt,
+  };
+}
+
+/**
+ * A stored visualization with its steps parsed for replay
+ */
+export function toVisualizationResponse(visualization: Visualization) {
+  const { steps, deletedAt, ...rest } = visualization;
+  return { ...rest, steps: JSON.parse(steps) as VisualizationStep[] };
+}
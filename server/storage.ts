@@ -1,11 +1,44 @@
-import { drizzle } from "drizzle-orm/neon-serverless";
-import { neon } from "@neondatabase/serverless";
-import { users, intakeResponses, journalSessions, reframingSessions, type User, type InsertUser, type IntakeResponse, type InsertIntakeResponse, type JournalSession, type InsertJournalSession, type ReframingSession, type InsertReframingSession } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import { checkDatabaseConnection } from "./database-status";
+import fs from "fs";
+import path from "path";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { users, intakeResponses, journalSessions, detectedThoughts, reframingSessions, tokenUsage, type User, type InsertUser, type IntakeResponse, type InsertIntakeResponse, type JournalSession, type InsertJournalSession, type DetectedThoughtRecord, type InsertDetectedThought, type ReframingSession, type InsertReframingSession, type TokenUsage, type InsertTokenUsage, retentionRuns, type RetentionRun, type InsertRetentionRun, crisisEvents, type CrisisEvent, type InsertCrisisEvent, visualizations, type Visualization, type InsertVisualization } from "@shared/schema";
+import { eq, and, gte, lt, lte, sum, count, desc, inArray, isNull, isNotNull, sql, getTableColumns, type SQL } from "drizzle-orm";
+import { checkDatabaseConnection, getFallbackStorage, type DatabaseStatus } from "./database-status";
+import { getDatabase } from "./db";
+import { assertSchemaUpToDate } from "./migrate";
 import { RULES } from "../shared/rules";
 
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+export interface JournalSessionListOptions {
+  limit: number;
+  offset: number;
+  from?: Date;
+  to?: Date;
+  distortion?: string;
+}
+
+export interface JournalSessionPage {
+  sessions: JournalSession[];
+  total: number;
+}
+
+// The tables MemStorage keeps, keyed as in its snapshot
+const memTables = { users, intakeResponses, journalSessions, detectedThoughts, reframingSessions, tokenUsage, retentionRuns, crisisEvents, visualizations };
+type MemTables = typeof memTables;
+
+/** Every MemStorage row and id counter, as FileStorage saves them */
+export interface MemSnapshot {
+  tables: { [K in keyof MemTables]: MemTables[K]["$inferSelect"][] };
+  nextIds: { [K in keyof MemTables]: number };
+}
+
+
 export interface IStorage {
+  sessionStore: session.Store;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
@@ -14,10 +47,50 @@ export interface IStorage {
   createJournalSession(session: InsertJournalSession): Promise<JournalSession>;
   getJournalSessionsByUserId(userId: number): Promise<JournalSession[]>;
   getJournalSession(id: number): Promise<JournalSession | undefined>;
+  listJournalSessions(userId: number, options: JournalSessionListOptions): Promise<JournalSessionPage>;
+  updateJournalSession(id: number, updates: Partial<JournalSession>): Promise<JournalSession | undefined>;
+  deleteJournalSessions(userId: number, sessionIds: number[]): Promise<number>;
+  createDetectedThoughts(thoughts: InsertDetectedThought[]): Promise<DetectedThoughtRecord[]>;
+  getDetectedThought(id: number): Promise<DetectedThoughtRecord | undefined>;
+  /** Thoughts for the given journal sessions, ordered by session then position */
+  getDetectedThoughts(journalSessionIds: number[]): Promise<DetectedThoughtRecord[]>;
+  /** Reframing sessions that pointed at these thoughts keep their copy of the text */
+  deleteDetectedThoughts(journalSessionId: number): Promise<void>;
   createReframingSession(session: InsertReframingSession): Promise<ReframingSession>;
   getReframingSessionById(sessionId: number): Promise<ReframingSession | undefined>;
   updateReframingSession(sessionId: number, updates: Partial<ReframingSession>): Promise<void>;
   getReframingSessionsByUserId(userId: number): Promise<ReframingSession[]>;
+  getReframingSessionsByJournalSessionId(journalSessionId: number): Promise<ReframingSession[]>;
+  recordTokenUsage(usage: InsertTokenUsage): Promise<TokenUsage>;
+  getTokensUsedSince(userId: number, since: Date): Promise<number>;
+  /** Hide the user and all of their intake, journal and reframing rows until hard deletion */
+  softDeleteUser(userId: number, deletionScheduledFor: Date): Promise<User | undefined>;
+  restoreUser(userId: number): Promise<User | undefined>;
+  getUsersDueForDeletion(now: Date): Promise<User[]>;
+  /** Permanently remove the user and everything that references them */
+  hardDeleteUser(userId: number): Promise<void>;
+  /** Mark the user active now, clearing any inactivity warning */
+  touchUser(userId: number, at: Date): Promise<void>;
+  markInactivityWarningSent(userId: number, at: Date): Promise<void>;
+  getInactiveUsers(lastActiveBefore: Date): Promise<User[]>;
+  /** Unflagged journal sessions created before the cutoff */
+  getExpiredJournalSessions(createdBefore: Date): Promise<JournalSession[]>;
+  /** Reframing sessions that were never completed, started before the cutoff */
+  getAbandonedReframingSessions(createdBefore: Date): Promise<ReframingSession[]>;
+  /** Unflagged journal sessions that still have their entry and at least one completed reframe */
+  getReducibleJournalSessions(): Promise<JournalSession[]>;
+  deleteReframingSessions(sessionIds: number[]): Promise<number>;
+  recordRetentionRun(run: InsertRetentionRun): Promise<RetentionRun>;
+  getRetentionRuns(limit: number): Promise<RetentionRun[]>;
+  createCrisisEvent(event: InsertCrisisEvent): Promise<CrisisEvent>;
+  getCrisisEvent(id: number): Promise<CrisisEvent | undefined>;
+  /** Newest first, optionally only those with the given review status */
+  getCrisisEvents(status?: string): Promise<CrisisEvent[]>;
+  updateCrisisEvent(id: number, updates: Partial<CrisisEvent>): Promise<CrisisEvent | undefined>;
+  createVisualization(visualization: InsertVisualization): Promise<Visualization>;
+  getVisualization(id: number): Promise<Visualization | undefined>;
+  // Newest first
+  getVisualizationsByUserId(userId: number): Promise<Visualization[]>;
 }
 
 // Initialize database connection if DATABASE_URL exists, otherwise use in-memory storage
@@ -29,8 +102,7 @@ async function initializeDatabase() {
   
   if (status.connected && process.env.DATABASE_URL) {
     try {
-      const sql = neon(process.env.DATABASE_URL);
-      db = drizzle(sql);
+      db = getDatabase(process.env.DATABASE_URL).db;
       dbAvailable = true;
       return true;
     } catch (error) {
@@ -44,10 +116,20 @@ async function initializeDatabase() {
   return false;
 }
 
-// Initialize database connection
-initializeDatabase();
 
 export class DatabaseStorage implements IStorage {
+  private store?: session.Store;
+
+  get sessionStore(): session.Store {
+    if (!this.store) {
+      this.store = new PostgresSessionStore({
+        conString: process.env.DATABASE_URL,
+        createTableIfMissing: true,
+      });
+    }
+    return this.store;
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
     return result[0];
@@ -69,7 +151,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getIntakeResponseByUserId(userId: number): Promise<IntakeResponse | undefined> {
-    const result = await db.select().from(intakeResponses).where(eq(intakeResponses.userId, userId)).limit(1);
+    const result = await db.select().from(intakeResponses)
+      .where(and(eq(intakeResponses.userId, userId), isNull(intakeResponses.deletedAt)))
+      .limit(1);
     return result[0];
   }
 
@@ -81,23 +165,95 @@ export class DatabaseStorage implements IStorage {
   async getJournalSessionsByUserId(userId: number): Promise<JournalSession[]> {
     // Apply RLS-style filtering - restrict to user's own sessions only
     const result = await db.select().from(journalSessions)
-      .where(eq(journalSessions.userId, userId))
+      .where(and(eq(journalSessions.userId, userId), isNull(journalSessions.deletedAt)))
       .orderBy(journalSessions.createdAt);
     return result;
   }
 
   async getJournalSession(id: number): Promise<JournalSession | undefined> {
-    const result = await db.select().from(journalSessions).where(eq(journalSessions.id, id)).limit(1);
+    const result = await db.select().from(journalSessions)
+      .where(and(eq(journalSessions.id, id), isNull(journalSessions.deletedAt)))
+      .limit(1);
+    return result[0];
+  }
+
+  async listJournalSessions(userId: number, options: JournalSessionListOptions): Promise<JournalSessionPage> {
+    const conditions: SQL[] = [eq(journalSessions.userId, userId), isNull(journalSessions.deletedAt)];
+    if (options.from) conditions.push(gte(journalSessions.createdAt, options.from));
+    if (options.to) conditions.push(lte(journalSessions.createdAt, options.to));
+    if (options.distortion) {
+      conditions.push(sql`${options.distortion} = any(${journalSessions.primaryDistortions})`);
+    }
+    const where = and(...conditions);
+
+    const [sessions, totals] = await Promise.all([
+      db.select().from(journalSessions)
+        .where(where)
+        .orderBy(desc(journalSessions.createdAt))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ total: count() }).from(journalSessions).where(where),
+    ]);
+
+    return { sessions, total: Number(totals[0]?.total || 0) };
+  }
+
+  async updateJournalSession(id: number, updates: Partial<JournalSession>): Promise<JournalSession | undefined> {
+    const result = await db.update(journalSessions).set(updates).where(eq(journalSessions.id, id)).returning();
+    return result[0];
+  }
+
+  async deleteJournalSessions(userId: number, sessionIds: number[]): Promise<number> {
+    if (sessionIds.length === 0) return 0;
+
+    // Only the user's own sessions; reframing sessions go first because they reference the journal
+    return await db.transaction(async (tx: typeof db) => {
+      const owned = await tx.select({ id: journalSessions.id }).from(journalSessions)
+        .where(and(eq(journalSessions.userId, userId), inArray(journalSessions.id, sessionIds)));
+      const ownedIds = owned.map((row: { id: number }) => row.id);
+      if (ownedIds.length === 0) return 0;
+
+      await tx.delete(visualizations).where(inArray(
+        visualizations.reframingSessionId,
+        tx.select({ id: reframingSessions.id }).from(reframingSessions).where(inArray(reframingSessions.journalSessionId, ownedIds)),
+      ));
+      await tx.delete(reframingSessions).where(inArray(reframingSessions.journalSessionId, ownedIds));
+      await tx.delete(detectedThoughts).where(inArray(detectedThoughts.journalSessionId, ownedIds));
+      await tx.delete(journalSessions).where(inArray(journalSessions.id, ownedIds));
+      return ownedIds.length;
+    });
+  }
+
+  async createDetectedThoughts(thoughts: InsertDetectedThought[]): Promise<DetectedThoughtRecord[]> {
+    if (thoughts.length === 0) return [];
+    return await db.insert(detectedThoughts).values(thoughts).returning();
+  }
+
+  async getDetectedThought(id: number): Promise<DetectedThoughtRecord | undefined> {
+    const result = await db.select().from(detectedThoughts).where(eq(detectedThoughts.id, id)).limit(1);
     return result[0];
   }
 
+  async getDetectedThoughts(journalSessionIds: number[]): Promise<DetectedThoughtRecord[]> {
+    if (journalSessionIds.length === 0) return [];
+    return await db.select().from(detectedThoughts)
+      .where(inArray(detectedThoughts.journalSessionId, journalSessionIds))
+      .orderBy(detectedThoughts.journalSessionId, detectedThoughts.position);
+  }
+
+  async deleteDetectedThoughts(journalSessionId: number): Promise<void> {
+    await db.delete(detectedThoughts).where(eq(detectedThoughts.journalSessionId, journalSessionId));
+  }
+
   async createReframingSession(session: InsertReframingSession): Promise<ReframingSession> {
     const result = await db.insert(reframingSessions).values(session).returning();
     return result[0];
   }
 
   async getReframingSessionById(sessionId: number): Promise<ReframingSession | undefined> {
-    const result = await db.select().from(reframingSessions).where(eq(reframingSessions.id, sessionId)).limit(1);
+    const result = await db.select().from(reframingSessions)
+      .where(and(eq(reframingSessions.id, sessionId), isNull(reframingSessions.deletedAt)))
+      .limit(1);
     return result[0];
   }
 
@@ -106,7 +262,177 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getReframingSessionsByUserId(userId: number): Promise<ReframingSession[]> {
-    return await db.select().from(reframingSessions).where(eq(reframingSessions.userId, userId));
+    return await db.select().from(reframingSessions)
+      .where(and(eq(reframingSessions.userId, userId), isNull(reframingSessions.deletedAt)));
+  }
+
+  async getReframingSessionsByJournalSessionId(journalSessionId: number): Promise<ReframingSession[]> {
+    return await db.select().from(reframingSessions)
+      .where(and(eq(reframingSessions.journalSessionId, journalSessionId), isNull(reframingSessions.deletedAt)))
+      .orderBy(reframingSessions.createdAt);
+  }
+
+  async recordTokenUsage(usage: InsertTokenUsage): Promise<TokenUsage> {
+    const result = await db.insert(tokenUsage).values(usage).returning();
+    return result[0];
+  }
+
+  async getTokensUsedSince(userId: number, since: Date): Promise<number> {
+    const result = await db.select({ total: sum(tokenUsage.totalTokens) }).from(tokenUsage)
+      .where(and(eq(tokenUsage.userId, userId), gte(tokenUsage.createdAt, since)));
+    return Number(result[0]?.total || 0);
+  }
+
+  async softDeleteUser(userId: number, deletionScheduledFor: Date): Promise<User | undefined> {
+    const deletedAt = new Date();
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.update(intakeResponses).set({ deletedAt }).where(eq(intakeResponses.userId, userId));
+      await tx.update(journalSessions).set({ deletedAt }).where(eq(journalSessions.userId, userId));
+      await tx.update(reframingSessions).set({ deletedAt }).where(eq(reframingSessions.userId, userId));
+      await tx.update(visualizations).set({ deletedAt }).where(eq(visualizations.userId, userId));
+      const result = await tx.update(users).set({ deletedAt, deletionScheduledFor })
+        .where(eq(users.id, userId))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async restoreUser(userId: number): Promise<User | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.update(intakeResponses).set({ deletedAt: null }).where(eq(intakeResponses.userId, userId));
+      await tx.update(journalSessions).set({ deletedAt: null }).where(eq(journalSessions.userId, userId));
+      await tx.update(reframingSessions).set({ deletedAt: null }).where(eq(reframingSessions.userId, userId));
+      await tx.update(visualizations).set({ deletedAt: null }).where(eq(visualizations.userId, userId));
+      const result = await tx.update(users).set({ deletedAt: null, deletionScheduledFor: null })
+        .where(eq(users.id, userId))
+        .returning();
+      return result[0];
+    });
+  }
+
+  async getUsersDueForDeletion(now: Date): Promise<User[]> {
+    return await db.select().from(users)
+      .where(and(isNotNull(users.deletedAt), lte(users.deletionScheduledFor, now)));
+  }
+
+  async hardDeleteUser(userId: number): Promise<void> {
+    // Children first so foreign keys never point at a missing row
+    await db.transaction(async (tx: typeof db) => {
+      await tx.delete(crisisEvents).where(eq(crisisEvents.userId, userId));
+      await tx.delete(tokenUsage).where(eq(tokenUsage.userId, userId));
+      await tx.delete(visualizations).where(eq(visualizations.userId, userId));
+      await tx.delete(reframingSessions).where(eq(reframingSessions.userId, userId));
+      await tx.delete(detectedThoughts).where(inArray(
+        detectedThoughts.journalSessionId,
+        tx.select({ id: journalSessions.id }).from(journalSessions).where(eq(journalSessions.userId, userId)),
+      ));
+      await tx.delete(journalSessions).where(eq(journalSessions.userId, userId));
+      await tx.delete(intakeResponses).where(eq(intakeResponses.userId, userId));
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+  }
+
+  async touchUser(userId: number, at: Date): Promise<void> {
+    await db.update(users).set({ lastActiveAt: at, inactivityWarningSentAt: null }).where(eq(users.id, userId));
+  }
+
+  async markInactivityWarningSent(userId: number, at: Date): Promise<void> {
+    await db.update(users).set({ inactivityWarningSentAt: at }).where(eq(users.id, userId));
+  }
+
+  async getInactiveUsers(lastActiveBefore: Date): Promise<User[]> {
+    return await db.select().from(users)
+      .where(and(isNull(users.deletedAt), lt(users.lastActiveAt, lastActiveBefore)));
+  }
+
+  async getExpiredJournalSessions(createdBefore: Date): Promise<JournalSession[]> {
+    return await db.select().from(journalSessions)
+      .where(and(
+        eq(journalSessions.flaggedForFullStorage, false),
+        isNull(journalSessions.deletedAt),
+        lt(journalSessions.createdAt, createdBefore),
+      ));
+  }
+
+  async getReducibleJournalSessions(): Promise<JournalSession[]> {
+    return await db.select().from(journalSessions)
+      .where(and(
+        eq(journalSessions.flaggedForFullStorage, false),
+        isNull(journalSessions.deletedAt),
+        isNotNull(journalSessions.journalEntry),
+        inArray(
+          journalSessions.id,
+          db.select({ id: reframingSessions.journalSessionId }).from(reframingSessions).where(eq(reframingSessions.isCompleted, true)),
+        ),
+      ));
+  }
+
+  async getAbandonedReframingSessions(createdBefore: Date): Promise<ReframingSession[]> {
+    return await db.select().from(reframingSessions)
+      .where(and(
+        eq(reframingSessions.isCompleted, false),
+        isNull(reframingSessions.deletedAt),
+        lt(reframingSessions.createdAt, createdBefore),
+      ));
+  }
+
+  async deleteReframingSessions(sessionIds: number[]): Promise<number> {
+    if (sessionIds.length === 0) return 0;
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.delete(visualizations).where(inArray(visualizations.reframingSessionId, sessionIds));
+      const result = await tx.delete(reframingSessions)
+        .where(inArray(reframingSessions.id, sessionIds))
+        .returning({ id: reframingSessions.id });
+      return result.length;
+    });
+  }
+
+  async recordRetentionRun(run: InsertRetentionRun): Promise<RetentionRun> {
+    const result = await db.insert(retentionRuns).values(run).returning();
+    return result[0];
+  }
+
+  async getRetentionRuns(limit: number): Promise<RetentionRun[]> {
+    return await db.select().from(retentionRuns).orderBy(desc(retentionRuns.startedAt)).limit(limit);
+  }
+
+  async createCrisisEvent(event: InsertCrisisEvent): Promise<CrisisEvent> {
+    const result = await db.insert(crisisEvents).values(event).returning();
+    return result[0];
+  }
+
+  async getCrisisEvent(id: number): Promise<CrisisEvent | undefined> {
+    const result = await db.select().from(crisisEvents).where(eq(crisisEvents.id, id));
+    return result[0];
+  }
+
+  async getCrisisEvents(status?: string): Promise<CrisisEvent[]> {
+    return await db.select().from(crisisEvents)
+      .where(status ? eq(crisisEvents.status, status) : undefined)
+      .orderBy(desc(crisisEvents.createdAt));
+  }
+
+  async updateCrisisEvent(id: number, updates: Partial<CrisisEvent>): Promise<CrisisEvent | undefined> {
+    const result = await db.update(crisisEvents).set(updates).where(eq(crisisEvents.id, id)).returning();
+    return result[0];
+  }
+
+  async createVisualization(visualization: InsertVisualization): Promise<Visualization> {
+    const result = await db.insert(visualizations).values(visualization).returning();
+    return result[0];
+  }
+
+  async getVisualization(id: number): Promise<Visualization | undefined> {
+    const result = await db.select().from(visualizations)
+      .where(and(eq(visualizations.id, id), isNull(visualizations.deletedAt)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getVisualizationsByUserId(userId: number): Promise<Visualization[]> {
+    return await db.select().from(visualizations)
+      .where(and(eq(visualizations.userId, userId), isNull(visualizations.deletedAt)))
+      .orderBy(desc(visualizations.createdAt));
   }
 }
 
@@ -114,21 +440,46 @@ export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private intakeResponses: Map<number, IntakeResponse>;
   private journalSessions: Map<number, JournalSession>;
+  private detectedThoughts: Map<number, DetectedThoughtRecord>;
   private reframingSessions: Map<number, ReframingSession>;
+  private tokenUsage: Map<number, TokenUsage>;
+  private retentionRuns: Map<number, RetentionRun>;
+  private crisisEvents: Map<number, CrisisEvent>;
+  private visualizations: Map<number, Visualization>;
   private currentUserId: number;
   private currentIntakeId: number;
   private currentSessionId: number;
+  private currentDetectedThoughtId: number;
   private currentReframingId: number;
+  private currentTokenUsageId: number;
+  private currentRetentionRunId: number;
+  private currentCrisisEventId: number;
+  private currentVisualizationId: number;
+  sessionStore: session.Store;
 
-  constructor() {
+  // firstId numbers every table's rows from there instead of 1
+  constructor(private firstId: number = 1) {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired entries every 24h
+    });
     this.users = new Map();
     this.intakeResponses = new Map();
     this.journalSessions = new Map();
+    this.detectedThoughts = new Map();
     this.reframingSessions = new Map();
-    this.currentUserId = 1;
-    this.currentIntakeId = 1;
-    this.currentSessionId = 1;
-    this.currentReframingId = 1;
+    this.tokenUsage = new Map();
+    this.retentionRuns = new Map();
+    this.crisisEvents = new Map();
+    this.visualizations = new Map();
+    this.currentUserId = firstId;
+    this.currentIntakeId = firstId;
+    this.currentSessionId = firstId;
+    this.currentDetectedThoughtId = firstId;
+    this.currentReframingId = firstId;
+    this.currentTokenUsageId = firstId;
+    this.currentRetentionRunId = firstId;
+    this.currentCrisisEventId = firstId;
+    this.currentVisualizationId = firstId;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -143,7 +494,15 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      deletedAt: null,
+      deletionScheduledFor: null,
+      lastActiveAt: new Date(),
+      inactivityWarningSentAt: null,
+      plan: "free",
+    };
     this.users.set(id, user);
     return user;
   }
@@ -159,6 +518,7 @@ export class MemStorage implements IStorage {
       question4: insertResponse.question4,
       question5: insertResponse.question5,
       createdAt: new Date(),
+      deletedAt: null,
     };
     this.intakeResponses.set(id, response);
     return response;
@@ -166,7 +526,7 @@ export class MemStorage implements IStorage {
 
   async getIntakeResponseByUserId(userId: number): Promise<IntakeResponse | undefined> {
     return Array.from(this.intakeResponses.values()).find(
-      (response) => response.userId === userId,
+      (response) => response.userId === userId && !response.deletedAt,
     );
   }
 
@@ -175,10 +535,12 @@ export class MemStorage implements IStorage {
     const session: JournalSession = {
       id,
       userId: insertSession.userId || null,
-      journalEntry: insertSession.journalEntry,
-      detectedThoughts: insertSession.detectedThoughts,
-      cognitiveDistortions: insertSession.cognitiveDistortions,
+      journalEntry: insertSession.journalEntry ?? null,
+      beliefSummary: insertSession.beliefSummary ?? null,
+      primaryDistortions: insertSession.primaryDistortions ?? [],
+      flaggedForFullStorage: insertSession.flaggedForFullStorage ?? false,
       createdAt: new Date(),
+      deletedAt: null,
     };
     this.journalSessions.set(id, session);
     return session;
@@ -187,12 +549,99 @@ export class MemStorage implements IStorage {
   async getJournalSessionsByUserId(userId: number): Promise<JournalSession[]> {
     // Apply session isolation - restrict to user's own sessions only
     return Array.from(this.journalSessions.values())
-      .filter((session) => session.userId === userId)
+      .filter((session) => session.userId === userId && !session.deletedAt)
       .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
   }
 
   async getJournalSession(id: number): Promise<JournalSession | undefined> {
-    return this.journalSessions.get(id);
+    const session = this.journalSessions.get(id);
+    return session && !session.deletedAt ? session : undefined;
+  }
+
+  async listJournalSessions(userId: number, options: JournalSessionListOptions): Promise<JournalSessionPage> {
+    const matching = Array.from(this.journalSessions.values())
+      .filter((session) => session.userId === userId && !session.deletedAt)
+      .filter((session) => !options.from || (session.createdAt && session.createdAt >= options.from))
+      .filter((session) => !options.to || (session.createdAt && session.createdAt <= options.to))
+      .filter((session) => !options.distortion || session.primaryDistortions.includes(options.distortion))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+
+    return {
+      sessions: matching.slice(options.offset, options.offset + options.limit),
+      total: matching.length,
+    };
+  }
+
+  async updateJournalSession(id: number, updates: Partial<JournalSession>): Promise<JournalSession | undefined> {
+    const session = this.journalSessions.get(id);
+    if (!session) return undefined;
+
+    const updatedSession = { ...session, ...updates };
+    this.journalSessions.set(id, updatedSession);
+    return updatedSession;
+  }
+
+  async deleteJournalSessions(userId: number, sessionIds: number[]): Promise<number> {
+    const ownedIds = sessionIds.filter((id) => this.journalSessions.get(id)?.userId === userId);
+
+    this.reframingSessions.forEach((session, id) => {
+      if (ownedIds.includes(session.journalSessionId)) {
+        this.deleteVisualizationsFor(id);
+        this.reframingSessions.delete(id);
+      }
+    });
+    // Crisis events outlive the sessions they came from
+    this.crisisEvents.forEach((event, id) => {
+      if (event.journalSessionId !== null && ownedIds.includes(event.journalSessionId)) {
+        this.crisisEvents.set(id, { ...event, journalSessionId: null, reframingSessionId: null });
+      }
+    });
+    this.detectedThoughts.forEach((thought, id) => {
+      if (ownedIds.includes(thought.journalSessionId)) {
+        this.detectedThoughts.delete(id);
+      }
+    });
+    ownedIds.forEach((id) => this.journalSessions.delete(id));
+
+    return ownedIds.length;
+  }
+
+  async createDetectedThoughts(thoughts: InsertDetectedThought[]): Promise<DetectedThoughtRecord[]> {
+    return thoughts.map((insertThought) => {
+      const id = this.currentDetectedThoughtId++;
+      const thought: DetectedThoughtRecord = {
+        id,
+        journalSessionId: insertThought.journalSessionId,
+        position: insertThought.position,
+        thought: insertThought.thought,
+        distortion: insertThought.distortion,
+        explanation: insertThought.explanation ?? "",
+      };
+      this.detectedThoughts.set(id, thought);
+      return thought;
+    });
+  }
+
+  async getDetectedThought(id: number): Promise<DetectedThoughtRecord | undefined> {
+    return this.detectedThoughts.get(id);
+  }
+
+  async getDetectedThoughts(journalSessionIds: number[]): Promise<DetectedThoughtRecord[]> {
+    return Array.from(this.detectedThoughts.values())
+      .filter((thought) => journalSessionIds.includes(thought.journalSessionId))
+      .sort((a, b) => a.journalSessionId - b.journalSessionId || a.position - b.position);
+  }
+
+  async deleteDetectedThoughts(journalSessionId: number): Promise<void> {
+    this.detectedThoughts.forEach((thought, id) => {
+      if (thought.journalSessionId !== journalSessionId) return;
+      this.detectedThoughts.delete(id);
+      this.reframingSessions.forEach((session, sessionId) => {
+        if (session.detectedThoughtId === id) {
+          this.reframingSessions.set(sessionId, { ...session, detectedThoughtId: null });
+        }
+      });
+    });
   }
 
   async createReframingSession(insertSession: InsertReframingSession): Promise<ReframingSession> {
@@ -200,6 +649,7 @@ export class MemStorage implements IStorage {
     const session: ReframingSession = {
       id,
       journalSessionId: insertSession.journalSessionId,
+      detectedThoughtId: insertSession.detectedThoughtId ?? null,
       userId: insertSession.userId,
       selectedThought: insertSession.selectedThought,
       distortionType: insertSession.distortionType,
@@ -210,14 +660,21 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       turnCount: 0,
       maxTurns: 12,
+      distressScoreBefore: insertSession.distressScoreBefore ?? null,
+      distressScoreAfter: insertSession.distressScoreAfter ?? null,
+      contextSummary: insertSession.contextSummary ?? null,
+      contextSummaryThrough: insertSession.contextSummaryThrough ?? 0,
+      safetyMode: insertSession.safetyMode ?? false,
       completedAt: null,
+      deletedAt: null,
     };
     this.reframingSessions.set(id, session);
     return session;
   }
 
   async getReframingSessionById(sessionId: number): Promise<ReframingSession | undefined> {
-    return this.reframingSessions.get(sessionId);
+    const session = this.reframingSessions.get(sessionId);
+    return session && !session.deletedAt ? session : undefined;
   }
 
   async updateReframingSession(sessionId: number, updates: Partial<ReframingSession>): Promise<void> {
@@ -230,63 +687,1154 @@ export class MemStorage implements IStorage {
 
   async getReframingSessionsByUserId(userId: number): Promise<ReframingSession[]> {
     return Array.from(this.reframingSessions.values())
-      .filter((session) => session.userId === userId)
+      .filter((session) => session.userId === userId && !session.deletedAt)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
+  }
+
+  async getReframingSessionsByJournalSessionId(journalSessionId: number): Promise<ReframingSession[]> {
+    return Array.from(this.reframingSessions.values())
+      .filter((session) => session.journalSessionId === journalSessionId && !session.deletedAt)
       .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
   }
+
+  async recordTokenUsage(insertUsage: InsertTokenUsage): Promise<TokenUsage> {
+    const id = this.currentTokenUsageId++;
+    const usage: TokenUsage = {
+      id,
+      userId: insertUsage.userId,
+      operation: insertUsage.operation,
+      model: insertUsage.model,
+      promptTokens: insertUsage.promptTokens || 0,
+      completionTokens: insertUsage.completionTokens || 0,
+      totalTokens: insertUsage.totalTokens || 0,
+      createdAt: new Date(),
+    };
+    this.tokenUsage.set(id, usage);
+    return usage;
+  }
+
+  async getTokensUsedSince(userId: number, since: Date): Promise<number> {
+    return Array.from(this.tokenUsage.values())
+      .filter((usage) => usage.userId === userId && usage.createdAt >= since)
+      .reduce((total, usage) => total + usage.totalTokens, 0);
+  }
+
+  async softDeleteUser(userId: number, deletionScheduledFor: Date): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    this.setDeletedAt(userId, new Date());
+    const updatedUser = { ...user, deletedAt: new Date(), deletionScheduledFor };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async restoreUser(userId: number): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    this.setDeletedAt(userId, null);
+    const updatedUser = { ...user, deletedAt: null, deletionScheduledFor: null };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+
+  async getUsersDueForDeletion(now: Date): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => user.deletedAt && user.deletionScheduledFor && user.deletionScheduledFor <= now,
+    );
+  }
+
+  async hardDeleteUser(userId: number): Promise<void> {
+    this.detectedThoughts.forEach((thought, id) => {
+      if (this.journalSessions.get(thought.journalSessionId)?.userId === userId) {
+        this.detectedThoughts.delete(id);
+      }
+    });
+    const maps: Map<number, { userId: number | null }>[] = [
+      this.crisisEvents,
+      this.visualizations,
+      this.tokenUsage,
+      this.reframingSessions,
+      this.journalSessions,
+      this.intakeResponses,
+    ];
+    maps.forEach((rows) => {
+      rows.forEach((row, id) => {
+        if (row.userId === userId) rows.delete(id);
+      });
+    });
+    this.users.delete(userId);
+  }
+
+  async touchUser(userId: number, at: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, lastActiveAt: at, inactivityWarningSentAt: null });
+    }
+  }
+
+  async markInactivityWarningSent(userId: number, at: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, inactivityWarningSentAt: at });
+    }
+  }
+
+  async getInactiveUsers(lastActiveBefore: Date): Promise<User[]> {
+    return Array.from(this.users.values()).filter(
+      (user) => !user.deletedAt && user.lastActiveAt < lastActiveBefore,
+    );
+  }
+
+  async getExpiredJournalSessions(createdBefore: Date): Promise<JournalSession[]> {
+    return Array.from(this.journalSessions.values()).filter(
+      (session) => !session.flaggedForFullStorage
+        && !session.deletedAt
+        && session.createdAt !== null
+        && session.createdAt < createdBefore,
+    );
+  }
+
+  async getReducibleJournalSessions(): Promise<JournalSession[]> {
+    const completedJournalIds = Array.from(this.reframingSessions.values())
+      .filter((session) => session.isCompleted)
+      .map((session) => session.journalSessionId);
+    return Array.from(this.journalSessions.values()).filter(
+      (session) => !session.flaggedForFullStorage
+        && !session.deletedAt
+        && session.journalEntry !== null
+        && completedJournalIds.includes(session.id),
+    );
+  }
+
+  async getAbandonedReframingSessions(createdBefore: Date): Promise<ReframingSession[]> {
+    return Array.from(this.reframingSessions.values()).filter(
+      (session) => !session.isCompleted && !session.deletedAt && session.createdAt < createdBefore,
+    );
+  }
+
+  async deleteReframingSessions(sessionIds: number[]): Promise<number> {
+    this.crisisEvents.forEach((event, id) => {
+      if (event.reframingSessionId !== null && sessionIds.includes(event.reframingSessionId)) {
+        this.crisisEvents.set(id, { ...event, reframingSessionId: null });
+      }
+    });
+    sessionIds.forEach((id) => this.deleteVisualizationsFor(id));
+    return sessionIds.filter((id) => this.reframingSessions.delete(id)).length;
+  }
+
+  async recordRetentionRun(insertRun: InsertRetentionRun): Promise<RetentionRun> {
+    const id = this.currentRetentionRunId++;
+    const run: RetentionRun = {
+      id,
+      dryRun: insertRun.dryRun,
+      trigger: insertRun.trigger,
+      journalSessionsDeleted: insertRun.journalSessionsDeleted || 0,
+      reframingSessionsDeleted: insertRun.reframingSessionsDeleted || 0,
+      accountsWarned: insertRun.accountsWarned || 0,
+      accountsDeleted: insertRun.accountsDeleted || 0,
+      details: insertRun.details,
+      startedAt: insertRun.startedAt,
+      finishedAt: new Date(),
+    };
+    this.retentionRuns.set(id, run);
+    return run;
+  }
+
+  async getRetentionRuns(limit: number): Promise<RetentionRun[]> {
+    return Array.from(this.retentionRuns.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async createCrisisEvent(insertEvent: InsertCrisisEvent): Promise<CrisisEvent> {
+    const id = this.currentCrisisEventId++;
+    const event: CrisisEvent = {
+      id,
+      userId: insertEvent.userId,
+      source: insertEvent.source,
+      journalSessionId: insertEvent.journalSessionId ?? null,
+      reframingSessionId: insertEvent.reframingSessionId ?? null,
+      severity: insertEvent.severity,
+      matchedRule: insertEvent.matchedRule,
+      matchedPhrase: insertEvent.matchedPhrase,
+      status: insertEvent.status || "pending",
+      reviewerNotifiedAt: insertEvent.reviewerNotifiedAt ?? null,
+      reviewedBy: insertEvent.reviewedBy ?? null,
+      reviewNote: insertEvent.reviewNote ?? null,
+      reviewedAt: insertEvent.reviewedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.crisisEvents.set(id, event);
+    return event;
+  }
+
+  async getCrisisEvent(id: number): Promise<CrisisEvent | undefined> {
+    return this.crisisEvents.get(id);
+  }
+
+  async getCrisisEvents(status?: string): Promise<CrisisEvent[]> {
+    return Array.from(this.crisisEvents.values())
+      .filter((event) => !status || event.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async updateCrisisEvent(id: number, updates: Partial<CrisisEvent>): Promise<CrisisEvent | undefined> {
+    const event = this.crisisEvents.get(id);
+    if (!event) return undefined;
+    const updated = { ...event, ...updates };
+    this.crisisEvents.set(id, updated);
+    return updated;
+  }
+
+  async createVisualization(insertVisualization: InsertVisualization): Promise<Visualization> {
+    const id = this.currentVisualizationId++;
+    const visualization: Visualization = {
+      id,
+      userId: insertVisualization.userId,
+      reframingSessionId: insertVisualization.reframingSessionId,
+      title: insertVisualization.title,
+      reframedThought: insertVisualization.reframedThought,
+      steps: insertVisualization.steps,
+      createdAt: new Date(),
+      deletedAt: null,
+    };
+    this.visualizations.set(id, visualization);
+    return visualization;
+  }
+
+  async getVisualization(id: number): Promise<Visualization | undefined> {
+    const visualization = this.visualizations.get(id);
+    return visualization && !visualization.deletedAt ? visualization : undefined;
+  }
+
+  async getVisualizationsByUserId(userId: number): Promise<Visualization[]> {
+    return Array.from(this.visualizations.values())
+      .filter((visualization) => visualization.userId === userId && !visualization.deletedAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  protected toSnapshot(): MemSnapshot {
+    return {
+      tables: {
+        users: Array.from(this.users.values()),
+        intakeResponses: Array.from(this.intakeResponses.values()),
+        journalSessions: Array.from(this.journalSessions.values()),
+        detectedThoughts: Array.from(this.detectedThoughts.values()),
+        reframingSessions: Array.from(this.reframingSessions.values()),
+        tokenUsage: Array.from(this.tokenUsage.values()),
+        retentionRuns: Array.from(this.retentionRuns.values()),
+        crisisEvents: Array.from(this.crisisEvents.values()),
+        visualizations: Array.from(this.visualizations.values()),
+      },
+      nextIds: {
+        users: this.currentUserId,
+        intakeResponses: this.currentIntakeId,
+        journalSessions: this.currentSessionId,
+        detectedThoughts: this.currentDetectedThoughtId,
+        reframingSessions: this.currentReframingId,
+        tokenUsage: this.currentTokenUsageId,
+        retentionRuns: this.currentRetentionRunId,
+        crisisEvents: this.currentCrisisEventId,
+        visualizations: this.currentVisualizationId,
+      },
+    };
+  }
+
+  protected loadSnapshot({ tables, nextIds }: MemSnapshot) {
+    this.users = new Map(tables.users.map((row) => [row.id, row]));
+    this.intakeResponses = new Map(tables.intakeResponses.map((row) => [row.id, row]));
+    this.journalSessions = new Map(tables.journalSessions.map((row) => [row.id, row]));
+    this.detectedThoughts = new Map(tables.detectedThoughts.map((row) => [row.id, row]));
+    this.reframingSessions = new Map(tables.reframingSessions.map((row) => [row.id, row]));
+    this.tokenUsage = new Map(tables.tokenUsage.map((row) => [row.id, row]));
+    this.retentionRuns = new Map(tables.retentionRuns.map((row) => [row.id, row]));
+    this.crisisEvents = new Map(tables.crisisEvents.map((row) => [row.id, row]));
+    this.visualizations = new Map(tables.visualizations.map((row) => [row.id, row]));
+    this.currentUserId = nextIds.users;
+    this.currentIntakeId = nextIds.intakeResponses;
+    this.currentSessionId = nextIds.journalSessions;
+    this.currentDetectedThoughtId = nextIds.detectedThoughts;
+    this.currentReframingId = nextIds.reframingSessions;
+    this.currentTokenUsageId = nextIds.tokenUsage;
+    this.currentRetentionRunId = nextIds.retentionRuns;
+    this.currentCrisisEventId = nextIds.crisisEvents;
+    this.currentVisualizationId = nextIds.visualizations;
+  }
+
+  /**
+   * Store a user exactly as given, keeping its id. Returns false when the
+   * stored copy was already the same.
+   */
+  async putUser(user: User): Promise<boolean> {
+    const stored = this.users.get(user.id);
+    if (stored && JSON.stringify(stored) === JSON.stringify(user)) return false;
+    this.users.set(user.id, user);
+    return true;
+  }
+
+  /** Drop every row outside the kept tables and number new ones from the start again */
+  async clear(keep: (keyof MemTables)[] = []): Promise<void> {
+    const snapshot = this.toSnapshot();
+    const tableNames = Object.keys(memTables) as (keyof MemTables)[];
+    this.loadSnapshot({
+      tables: Object.fromEntries(tableNames.map((table) => [table, keep.includes(table) ? snapshot.tables[table] : []])) as unknown as MemSnapshot["tables"],
+      nextIds: Object.fromEntries(tableNames.map((table) => [table, keep.includes(table) ? snapshot.nextIds[table] : this.firstId])) as MemSnapshot["nextIds"],
+    });
+  }
+
+  private deleteVisualizationsFor(reframingSessionId: number) {
+    this.visualizations.forEach((visualization, id) => {
+      if (visualization.reframingSessionId === reframingSessionId) this.visualizations.delete(id);
+    });
+  }
+
+  private setDeletedAt(userId: number, deletedAt: Date | null) {
+    this.intakeResponses.forEach((row, id) => {
+      if (row.userId === userId) this.intakeResponses.set(id, { ...row, deletedAt });
+    });
+    this.journalSessions.forEach((row, id) => {
+      if (row.userId === userId) this.journalSessions.set(id, { ...row, deletedAt });
+    });
+    this.reframingSessions.forEach((row, id) => {
+      if (row.userId === userId) this.reframingSessions.set(id, { ...row, deletedAt });
+    });
+    this.visualizations.forEach((row, id) => {
+      if (row.userId === userId) this.visualizations.set(id, { ...row, deletedAt });
+    });
+  }
+}
+
+const FILE_STORAGE_VERSION = 1;
+const DEFAULT_STORAGE_FILE = ".data/storage.json";
+
+// Write to a temporary file and rename it over the old one, so a crash
+// mid-write leaves the previous copy intact
+async function writeFileAtomic(filePath: string, contents: string) {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const file = await fs.promises.open(tempPath, "w", 0o600);
+  try {
+    await file.writeFile(contents);
+    await file.sync();
+  } finally {
+    await file.close();
+  }
+  await fs.promises.rename(tempPath, filePath);
+}
+
+// JSON turns timestamps into strings; the schema says which columns to turn back
+function reviveDates(table: keyof MemTables, rows: Record<string, unknown>[]) {
+  const dateColumns = Object.entries(getTableColumns(memTables[table]))
+    .filter(([, column]) => column.dataType === "date")
+    .map(([key]) => key);
+  return rows.map((row) => {
+    const revived = { ...row };
+    dateColumns.forEach((key) => {
+      if (typeof revived[key] === "string") revived[key] = new Date(revived[key] as string);
+    });
+    return revived;
+  });
+}
+
+// Queued writes carry Dates anywhere in their arguments and results, so they
+// are tagged rather than looked up in the schema
+function encodeDates(this: Record<string, unknown>, key: string, value: unknown) {
+  const raw = this[key];
+  return raw instanceof Date ? { $date: raw.toISOString() } : value;
+}
+
+function decodeDates(_key: string, value: any) {
+  return value && typeof value === "object" && typeof value.$date === "string" && Object.keys(value).length === 1
+    ? new Date(value.$date)
+    : value;
+}
+
+/**
+ * MemStorage that saves every table to a JSON file after each write, so
+ * development data survives a restart without Postgres. Login sessions still
+ * live in memory.
+ */
+export class FileStorage extends MemStorage {
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, firstId: number = 1) {
+    super(firstId);
+    this.load();
+  }
+
+  private load() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    // Refuse to start rather than overwrite a file we can't read
+    const saved = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+    if (saved.version !== FILE_STORAGE_VERSION) {
+      throw new Error(`${this.filePath} has storage format version ${saved.version}, expected ${FILE_STORAGE_VERSION}`);
+    }
+    const tables = Object.fromEntries((Object.keys(memTables) as (keyof MemTables)[]).map(
+      (table) => [table, reviveDates(table, saved.tables[table] ?? [])],
+    )) as MemSnapshot["tables"];
+    // Tables added since the file was written start empty, and no table
+    // numbers rows below firstId even if the file was written without it
+    const firstIds = this.toSnapshot().nextIds;
+    const nextIds = Object.fromEntries((Object.keys(firstIds) as (keyof MemTables)[]).map(
+      (table) => [table, Math.max(firstIds[table], saved.nextIds?.[table] ?? 0)],
+    )) as MemSnapshot["nextIds"];
+    this.loadSnapshot({ tables, nextIds });
+    console.log(`Loaded storage from ${this.filePath}`);
+  }
+
+  // Saves run one at a time in call order, each writing the state as of its call
+  private async save(): Promise<void> {
+    const contents = JSON.stringify({ version: FILE_STORAGE_VERSION, ...this.toSnapshot() });
+    this.saving = this.saving
+      .then(() => writeFileAtomic(this.filePath, contents))
+      .catch((error) => console.error(`Failed to save storage to ${this.filePath}:`, error));
+    return this.saving;
+  }
+
+  private async saveAfter<T>(write: Promise<T>): Promise<T> {
+    const result = await write;
+    await this.save();
+    return result;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    return this.saveAfter(super.createUser(user));
+  }
+
+  async createIntakeResponse(response: InsertIntakeResponse): Promise<IntakeResponse> {
+    return this.saveAfter(super.createIntakeResponse(response));
+  }
+
+  async createJournalSession(session: InsertJournalSession): Promise<JournalSession> {
+    return this.saveAfter(super.createJournalSession(session));
+  }
+
+  async updateJournalSession(id: number, updates: Partial<JournalSession>): Promise<JournalSession | undefined> {
+    return this.saveAfter(super.updateJournalSession(id, updates));
+  }
+
+  async deleteJournalSessions(userId: number, sessionIds: number[]): Promise<number> {
+    return this.saveAfter(super.deleteJournalSessions(userId, sessionIds));
+  }
+
+  async createDetectedThoughts(thoughts: InsertDetectedThought[]): Promise<DetectedThoughtRecord[]> {
+    return this.saveAfter(super.createDetectedThoughts(thoughts));
+  }
+
+  async deleteDetectedThoughts(journalSessionId: number): Promise<void> {
+    return this.saveAfter(super.deleteDetectedThoughts(journalSessionId));
+  }
+
+  async createReframingSession(session: InsertReframingSession): Promise<ReframingSession> {
+    return this.saveAfter(super.createReframingSession(session));
+  }
+
+  async updateReframingSession(sessionId: number, updates: Partial<ReframingSession>): Promise<void> {
+    return this.saveAfter(super.updateReframingSession(sessionId, updates));
+  }
+
+  async recordTokenUsage(usage: InsertTokenUsage): Promise<TokenUsage> {
+    return this.saveAfter(super.recordTokenUsage(usage));
+  }
+
+  async softDeleteUser(userId: number, deletionScheduledFor: Date): Promise<User | undefined> {
+    return this.saveAfter(super.softDeleteUser(userId, deletionScheduledFor));
+  }
+
+  async restoreUser(userId: number): Promise<User | undefined> {
+    return this.saveAfter(super.restoreUser(userId));
+  }
+
+  async hardDeleteUser(userId: number): Promise<void> {
+    return this.saveAfter(super.hardDeleteUser(userId));
+  }
+
+  async touchUser(userId: number, at: Date): Promise<void> {
+    return this.saveAfter(super.touchUser(userId, at));
+  }
+
+  async markInactivityWarningSent(userId: number, at: Date): Promise<void> {
+    return this.saveAfter(super.markInactivityWarningSent(userId, at));
+  }
+
+  async deleteReframingSessions(sessionIds: number[]): Promise<number> {
+    return this.saveAfter(super.deleteReframingSessions(sessionIds));
+  }
+
+  async recordRetentionRun(run: InsertRetentionRun): Promise<RetentionRun> {
+    return this.saveAfter(super.recordRetentionRun(run));
+  }
+
+  async createCrisisEvent(event: InsertCrisisEvent): Promise<CrisisEvent> {
+    return this.saveAfter(super.createCrisisEvent(event));
+  }
+
+  async updateCrisisEvent(id: number, updates: Partial<CrisisEvent>): Promise<CrisisEvent | undefined> {
+    return this.saveAfter(super.updateCrisisEvent(id, updates));
+  }
+
+  async createVisualization(visualization: InsertVisualization): Promise<Visualization> {
+    return this.saveAfter(super.createVisualization(visualization));
+  }
+
+  async putUser(user: User): Promise<boolean> {
+    const changed = await super.putUser(user);
+    if (changed) await this.save();
+    return changed;
+  }
+
+  async clear(keep: (keyof MemTables)[] = []): Promise<void> {
+    return this.saveAfter(super.clear(keep));
+  }
+}
+
+const HEALTH_PROBE_INTERVAL_MS = 30 * 1000;
+
+type StorageMethod = Exclude<keyof IStorage, "sessionStore">;
+type StorageResult<K extends StorageMethod> = Awaited<ReturnType<IStorage[K]>>;
+type IdTable = keyof MemTables;
+
+function invoke(target: IStorage, method: StorageMethod, args: unknown[]): Promise<any> {
+  return (target[method] as (...args: unknown[]) => Promise<unknown>).apply(target, args);
+}
+
+// How each argument of a write refers to other rows when it's replayed: the
+// id (or ids) of a row in that table, a row whose *Id fields are ids, or not at all
+type ReplayArg = IdTable | "row" | null;
+
+interface ReplayRule {
+  args: ReplayArg[];
+  /** The table whose rows the write returns, so later writes can find their database ids */
+  creates?: IdTable;
+}
+
+const REPLAYED_WRITES = {
+  createIntakeResponse: { args: ["row"], creates: "intakeResponses" },
+  createJournalSession: { args: ["row"], creates: "journalSessions" },
+  updateJournalSession: { args: ["journalSessions", "row"] },
+  deleteJournalSessions: { args: ["users", "journalSessions"] },
+  createDetectedThoughts: { args: ["row"], creates: "detectedThoughts" },
+  deleteDetectedThoughts: { args: ["journalSessions"] },
+  createReframingSession: { args: ["row"], creates: "reframingSessions" },
+  updateReframingSession: { args: ["reframingSessions", "row"] },
+  recordTokenUsage: { args: ["row"], creates: "tokenUsage" },
+  softDeleteUser: { args: ["users", null] },
+  restoreUser: { args: ["users"] },
+  hardDeleteUser: { args: ["users"] },
+  touchUser: { args: ["users", null] },
+  markInactivityWarningSent: { args: ["users", null] },
+  deleteReframingSessions: { args: ["reframingSessions"] },
+  recordRetentionRun: { args: [null], creates: "retentionRuns" },
+  createCrisisEvent: { args: ["row"], creates: "crisisEvents" },
+  updateCrisisEvent: { args: ["crisisEvents", "row"] },
+  createVisualization: { args: ["row"], creates: "visualizations" },
+} satisfies Partial<Record<StorageMethod, ReplayRule>>;
+
+type WriteMethod = keyof typeof REPLAYED_WRITES;
+
+const ROW_ID_FIELDS: Record<string, IdTable> = {
+  userId: "users",
+  journalSessionId: "journalSessions",
+  detectedThoughtId: "detectedThoughts",
+  reframingSessionId: "reframingSessions",
+};
+
+interface QueuedWrite {
+  method: WriteMethod;
+  args: unknown[];
+  /** Settles once the fallback has applied the write; replay needs the ids it handed out */
+  memoryResult: Promise<unknown>;
+}
+
+// Rows the fallback creates while a database is configured are numbered from
+// here, far above any serial id the database hands out, so a queued write can
+// tell them from rows that were already in the database
+const FALLBACK_FIRST_ID = 1_000_000_000;
+
+/**
+ * A queued write refers to a fallback row the database never received, e.g.
+ * one whose own create was rejected
+ */
+class UnreplayableWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnreplayableWriteError";
+  }
+}
+
+/**
+ * The database is configured but unreachable, and the write can't be made on
+ * the fallback
+ */
+export class StorageUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageUnavailableError";
+  }
+}
+
+const REPLAY_QUEUE_VERSION = 1;
+
+/** A queued write the database refused, kept with its data for someone to look at */
+interface RejectedWrite {
+  method: WriteMethod;
+  args: unknown[];
+  error: string;
+  rejectedAt: Date;
+}
+
+interface SavedReplayQueue {
+  version: number;
+  writes: { method: WriteMethod; args: unknown[]; result: unknown }[];
+  replayedIds: Record<string, [number, number][]>;
+  rejected?: RejectedWrite[];
+}
+
+export interface StorageStatus {
+  mode: DatabaseStatus["using"];
+  /** Writes made while the database was away, waiting to be replayed */
+  queuedWrites: number;
+  /** Queued writes the database refused on replay */
+  rejectedWrites: number;
+  replaying: boolean;
+}
+
+// express-session keeps the store it's given at startup, so it gets one that
+// forwards to whichever backend is current. While that's the database, every
+// session is copied to the fallback too so nobody is signed out by an outage,
+// and sessions started during one are copied back when it's over.
+class DynamicSessionStore extends session.Store {
+  constructor(private current: () => session.Store, private fallback: session.Store) {
+    super();
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    const store = this.current();
+    if (store === this.fallback) return store.get(sid, callback);
+
+    store.get(sid, (err, data) => {
+      if (err) return this.fallback.get(sid, callback);
+      if (data) {
+        this.fallback.set(sid, data);
+        return callback(null, data);
+      }
+      this.fallback.get(sid, (fallbackErr, fallbackData) => {
+        if (fallbackErr || !fallbackData) return callback(null, data);
+        store.set(sid, fallbackData, () => callback(null, fallbackData));
+      });
+    });
+  }
+
+  set(sid: string, data: session.SessionData, callback?: (err?: any) => void) {
+    const store = this.current();
+    if (store !== this.fallback) this.fallback.set(sid, data);
+    store.set(sid, data, callback);
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    const store = this.current();
+    if (store !== this.fallback) this.fallback.destroy(sid);
+    store.destroy(sid, callback);
+  }
+
+  touch(sid: string, data: session.SessionData, callback?: () => void) {
+    const store = this.current();
+    if (store !== this.fallback) this.fallback.touch?.(sid, data, () => {});
+    if (store.touch) {
+      store.touch(sid, data, callback);
+    } else {
+      callback?.();
+    }
+  }
 }
 
-// Create a dynamic storage that checks database availability
+/**
+ * Sends everything to the database while it's reachable and to the fallback
+ * (memory or file) while it isn't. Writes made on the fallback are queued and
+ * replayed, in order, when a health probe finds the database again; ids the
+ * fallback handed out are translated to the ids the database assigns, and
+ * ids below FALLBACK_FIRST_ID already belong to the database.
+ */
 class DynamicStorage implements IStorage {
-  private memStorage = new MemStorage();
+  private storageFile = path.resolve(process.env.STORAGE_FILE || DEFAULT_STORAGE_FILE);
+  private firstFallbackId = process.env.DATABASE_URL ? FALLBACK_FIRST_ID : 1;
+  // Used whenever the database isn't: in memory, or in STORAGE_FILE with STORAGE_BACKEND=file
+  private memStorage = getFallbackStorage() === "file"
+    ? new FileStorage(this.storageFile, this.firstFallbackId)
+    : new MemStorage(this.firstFallbackId);
+  // Writes kept on file are queued on file too, so a restart mid-outage can still replay them
+  private replayQueueFile = getFallbackStorage() === "file" && process.env.DATABASE_URL
+    ? `${this.storageFile}.queue.json`
+    : null;
+  private savingReplayQueue: Promise<void> = Promise.resolve();
   private dbStorage = new DatabaseStorage();
+  readonly sessionStore: session.Store = new DynamicSessionStore(
+    () => dbAvailable ? this.dbStorage.sessionStore : this.memStorage.sessionStore,
+    this.memStorage.sessionStore,
+  );
+  private replayQueue: QueuedWrite[] = [];
+  private rejectedWrites: RejectedWrite[] = [];
+  // Fallback id -> database id, per table, for the rows replayed so far in
+  // this outage
+  private replayedIds = Object.fromEntries(
+    Object.keys(memTables).map((table) => [table, new Map<number, number>()]),
+  ) as Record<IdTable, Map<number, number>>;
+  private probing = false;
+  private replaying = false;
+
+  constructor() {
+    this.loadReplayQueue();
+  }
+
+  getStatus(): StorageStatus {
+    return {
+      mode: dbAvailable ? "database" : getFallbackStorage(),
+      queuedWrites: this.replayQueue.length,
+      rejectedWrites: this.rejectedWrites.length,
+      replaying: this.replaying,
+    };
+  }
+
+  /**
+   * Replay writes queued before a restart before the database is used again
+   */
+  async replayLoadedWrites(): Promise<void> {
+    if (!dbAvailable || this.replayQueue.length === 0) return;
+    dbAvailable = false;
+    await this.switchBack();
+  }
+
+  /**
+   * Check the database and switch to or from the fallback if its
+   * availability changed
+   */
+  async probe(): Promise<void> {
+    if (this.probing) return;
+    this.probing = true;
+    try {
+      const status = await checkDatabaseConnection();
+      if (dbAvailable && !status.connected) {
+        this.failOver(status.error);
+      } else if (!dbAvailable && status.connected) {
+        await this.switchBack();
+      }
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  private failOver(reason?: string) {
+    if (!dbAvailable) return;
+    dbAvailable = false;
+    console.warn(`⚠️ Database unreachable (${reason || "unknown error"}) - switching to ${getFallbackStorage()} storage until it returns`);
+  }
+
+  private async switchBack() {
+    const databaseUrl = process.env.DATABASE_URL!;
+    try {
+      await assertSchemaUpToDate(databaseUrl);
+    } catch (error) {
+      console.error("Database is back but can't be used:", error instanceof Error ? error.message : error);
+      return;
+    }
+    db = getDatabase(databaseUrl).db;
+
+    this.replaying = true;
+    try {
+      if (!(await this.replayQueuedWrites())) return;
+    } finally {
+      this.replaying = false;
+    }
+    await this.clearFallback();
+    console.log("✅ Database is back - switched from fallback storage");
+  }
+
+  // Everything on the fallback is in the database now, or kept in
+  // rejectedWrites. Starting the next outage empty keeps it from serving stale
+  // rows or replaying them twice; users are copies of database rows and stay
+  // so they can still sign in
+  private async clearFallback() {
+    if (!dbAvailable || this.replayQueue.length > 0) return;
+    Object.values(this.replayedIds).forEach((ids) => ids.clear());
+    await Promise.all([this.saveReplayQueue(), this.memStorage.clear(["users"])]);
+  }
+
+  // Copy a user read from the database to the fallback, so they can sign in
+  // and stay signed in while it's away
+  private async keepForOutages(user: User | undefined): Promise<void> {
+    if (!user || !dbAvailable || !process.env.DATABASE_URL) return;
+    await this.memStorage.putUser(user);
+  }
+
+  private loadReplayQueue() {
+    const file = this.replayQueueFile;
+    if (!file || !fs.existsSync(file)) return;
+
+    const saved: SavedReplayQueue = JSON.parse(fs.readFileSync(file, "utf8"), decodeDates);
+    if (saved.version !== REPLAY_QUEUE_VERSION) {
+      throw new Error(`${file} has replay queue version ${saved.version}, expected ${REPLAY_QUEUE_VERSION}`);
+    }
+    this.replayQueue = saved.writes.map(({ method, args, result }) => ({
+      method,
+      args,
+      memoryResult: Promise.resolve(result),
+    }));
+    Object.entries(saved.replayedIds).forEach(([table, ids]) => {
+      this.replayedIds[table as IdTable] = new Map(ids);
+    });
+    this.rejectedWrites = saved.rejected ?? [];
+    if (this.replayQueue.length > 0) {
+      console.log(`Loaded ${this.replayQueue.length} queued write(s) from ${file}`);
+    }
+  }
+
+  // Saves run one at a time in call order, each writing the queue as it is
+  // once the fallback has applied every queued write
+  private async saveReplayQueue(): Promise<void> {
+    const file = this.replayQueueFile;
+    if (!file) return;
+    this.savingReplayQueue = this.savingReplayQueue
+      .then(async () => {
+        const queued = [...this.replayQueue];
+        const results = await Promise.allSettled(queued.map((write) => write.memoryResult));
+        const saved: SavedReplayQueue = {
+          version: REPLAY_QUEUE_VERSION,
+          // Writes that failed on the fallback have nothing to replay
+          writes: queued.flatMap((write, index) => {
+            const result = results[index];
+            return result.status === "fulfilled" ? [{ method: write.method, args: write.args, result: result.value }] : [];
+          }),
+          replayedIds: Object.fromEntries(
+            Object.entries(this.replayedIds).map(([table, ids]) => [table, Array.from(ids.entries())]),
+          ),
+          rejected: this.rejectedWrites,
+        };
+        await writeFileAtomic(file, JSON.stringify(saved, encodeDates));
+      })
+      .catch((error) => console.error(`Failed to save the replay queue to ${file}:`, error));
+    return this.savingReplayQueue;
+  }
+
+  /**
+   * Apply queued writes to the database oldest first, including any queued
+   * while this runs, then switch to it. Returns false, keeping the rest
+   * queued, if the database goes away again; writes it refuses are logged
+   * and set aside, data included, in rejectedWrites.
+   */
+  private async replayQueuedWrites(): Promise<boolean> {
+    if (this.replayQueue.length > 0) {
+      console.log(`Replaying ${this.replayQueue.length} write(s) made while the database was unreachable`);
+    }
+    while (true) {
+      // Switch in the same tick the queue is found empty, so no write can be
+      // queued after the last replay and before the switch
+      if (this.replayQueue.length === 0) {
+        dbAvailable = true;
+        return true;
+      }
+      const write = this.replayQueue[0];
+      try {
+        await this.replay(write);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (!(error instanceof UnreplayableWriteError) && !(await checkDatabaseConnection()).connected) {
+          return false;
+        }
+        console.error(`Database refused queued ${write.method}, keeping it aside (${this.rejectedWrites.length + 1} so far): ${message}`);
+        this.rejectedWrites.push({ method: write.method, args: write.args, error: message, rejectedAt: new Date() });
+      }
+      this.replayQueue.shift();
+      await this.saveReplayQueue();
+    }
+  }
+
+  private async replay(write: QueuedWrite) {
+    let memoryResult: unknown;
+    try {
+      memoryResult = await write.memoryResult;
+    } catch {
+      // Failed on the fallback too, so there's nothing to replay
+      return;
+    }
+
+    const rule: ReplayRule = REPLAYED_WRITES[write.method];
+    const args = write.args.map((arg, index) => this.remapArg(rule.args[index], arg));
+    const result = await invoke(this.dbStorage, write.method, args);
+
+    if (rule.creates) {
+      const ids = this.replayedIds[rule.creates];
+      const dbRows = [result].flat() as { id: number }[];
+      ([memoryResult].flat() as { id: number }[]).forEach((row, index) => ids.set(row.id, dbRows[index].id));
+    }
+  }
+
+  private remapArg(kind: ReplayArg, arg: unknown): unknown {
+    if (kind === null || arg === null || arg === undefined) return arg;
+    if (kind === "row") {
+      return Array.isArray(arg)
+        ? arg.map((row) => this.remapRow(row))
+        : this.remapRow(arg as Record<string, unknown>);
+    }
+    return Array.isArray(arg)
+      ? arg.map((id) => this.remapId(kind, id))
+      : this.remapId(kind, arg as number);
+  }
+
+  private remapRow(row: Record<string, unknown>): Record<string, unknown> {
+    const remapped = { ...row };
+    Object.entries(ROW_ID_FIELDS).forEach(([field, table]) => {
+      if (typeof remapped[field] === "number") {
+        remapped[field] = this.remapId(table, remapped[field] as number);
+      }
+    });
+    return remapped;
+  }
+
+  private remapId(table: IdTable, id: number): number {
+    if (id < this.firstFallbackId) return id;
+    const dbId = this.replayedIds[table].get(id);
+    if (dbId === undefined) {
+      throw new UnreplayableWriteError(`${table} row ${id} was never written to the database`);
+    }
+    return dbId;
+  }
+
+  // A database error that turns out to be the database going away fails over
+  // and retries on the fallback rather than failing the request
+  private async failedOver(error: unknown): Promise<boolean> {
+    const status = await checkDatabaseConnection();
+    if (status.connected) return false;
+    console.error("Database request failed:", error instanceof Error ? error.message : error);
+    this.failOver(status.error);
+    return true;
+  }
+
+  private async read<K extends StorageMethod>(method: K, ...args: Parameters<IStorage[K]>): Promise<StorageResult<K>> {
+    if (dbAvailable) {
+      try {
+        return await invoke(this.dbStorage, method, args);
+      } catch (error) {
+        if (!(await this.failedOver(error))) throw error;
+      }
+    }
+    return invoke(this.memStorage, method, args);
+  }
+
+  private async write<K extends WriteMethod>(method: K, ...args: Parameters<IStorage[K]>): Promise<StorageResult<K>> {
+    if (dbAvailable) {
+      try {
+        return await invoke(this.dbStorage, method, args);
+      } catch (error) {
+        if (!(await this.failedOver(error))) throw error;
+      }
+    }
+    // Queued before it runs so a switch back can't slip in between
+    const memoryResult = invoke(this.memStorage, method, args);
+    if (process.env.DATABASE_URL) {
+      this.replayQueue.push({ method, args, memoryResult });
+      await this.saveReplayQueue();
+    }
+    return memoryResult;
+  }
 
   async getUser(id: number): Promise<User | undefined> {
-    return dbAvailable ? this.dbStorage.getUser(id) : this.memStorage.getUser(id);
+    const user = await this.read("getUser", id);
+    await this.keepForOutages(user);
+    return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    return dbAvailable ? this.dbStorage.getUserByUsername(username) : this.memStorage.getUserByUsername(username);
+    const user = await this.read("getUserByUsername", username);
+    await this.keepForOutages(user);
+    return user;
   }
 
+  // Only the database knows which usernames are taken, so accounts aren't
+  // created on the fallback while it's away
   async createUser(user: InsertUser): Promise<User> {
-    return dbAvailable ? this.dbStorage.createUser(user) : this.memStorage.createUser(user);
+    if (!process.env.DATABASE_URL) return this.memStorage.createUser(user);
+    if (dbAvailable) {
+      try {
+        return await this.dbStorage.createUser(user);
+      } catch (error) {
+        if (!(await this.failedOver(error))) throw error;
+      }
+    }
+    throw new StorageUnavailableError("Accounts can't be created while the database is unreachable");
   }
 
   async createIntakeResponse(response: InsertIntakeResponse): Promise<IntakeResponse> {
-    return dbAvailable ? this.dbStorage.createIntakeResponse(response) : this.memStorage.createIntakeResponse(response);
+    return this.write("createIntakeResponse", response);
   }
 
   async getIntakeResponseByUserId(userId: number): Promise<IntakeResponse | undefined> {
-    return dbAvailable ? this.dbStorage.getIntakeResponseByUserId(userId) : this.memStorage.getIntakeResponseByUserId(userId);
+    return this.read("getIntakeResponseByUserId", userId);
   }
 
   async createJournalSession(session: InsertJournalSession): Promise<JournalSession> {
-    return dbAvailable ? this.dbStorage.createJournalSession(session) : this.memStorage.createJournalSession(session);
+    return this.write("createJournalSession", session);
   }
 
   async getJournalSessionsByUserId(userId: number): Promise<JournalSession[]> {
-    return dbAvailable ? this.dbStorage.getJournalSessionsByUserId(userId) : this.memStorage.getJournalSessionsByUserId(userId);
+    return this.read("getJournalSessionsByUserId", userId);
   }
 
   async getJournalSession(id: number): Promise<JournalSession | undefined> {
-    return dbAvailable ? this.dbStorage.getJournalSession(id) : this.memStorage.getJournalSession(id);
+    return this.read("getJournalSession", id);
+  }
+
+  async listJournalSessions(userId: number, options: JournalSessionListOptions): Promise<JournalSessionPage> {
+    return this.read("listJournalSessions", userId, options);
+  }
+
+  async updateJournalSession(id: number, updates: Partial<JournalSession>): Promise<JournalSession | undefined> {
+    return this.write("updateJournalSession", id, updates);
+  }
+
+  async deleteJournalSessions(userId: number, sessionIds: number[]): Promise<number> {
+    return this.write("deleteJournalSessions", userId, sessionIds);
+  }
+
+  async createDetectedThoughts(thoughts: InsertDetectedThought[]): Promise<DetectedThoughtRecord[]> {
+    return this.write("createDetectedThoughts", thoughts);
+  }
+
+  async getDetectedThought(id: number): Promise<DetectedThoughtRecord | undefined> {
+    return this.read("getDetectedThought", id);
+  }
+
+  async getDetectedThoughts(journalSessionIds: number[]): Promise<DetectedThoughtRecord[]> {
+    return this.read("getDetectedThoughts", journalSessionIds);
+  }
+
+  async deleteDetectedThoughts(journalSessionId: number): Promise<void> {
+    return this.write("deleteDetectedThoughts", journalSessionId);
   }
 
   async createReframingSession(session: InsertReframingSession): Promise<ReframingSession> {
-    return dbAvailable ? this.dbStorage.createReframingSession(session) : this.memStorage.createReframingSession(session);
+    return this.write("createReframingSession", session);
   }
 
   async getReframingSessionById(sessionId: number): Promise<ReframingSession | undefined> {
-    return dbAvailable ? this.dbStorage.getReframingSessionById(sessionId) : this.memStorage.getReframingSessionById(sessionId);
+    return this.read("getReframingSessionById", sessionId);
   }
 
   async updateReframingSession(sessionId: number, updates: Partial<ReframingSession>): Promise<void> {
-    return dbAvailable ? this.dbStorage.updateReframingSession(sessionId, updates) : this.memStorage.updateReframingSession(sessionId, updates);
+    return this.write("updateReframingSession", sessionId, updates);
   }
 
   async getReframingSessionsByUserId(userId: number): Promise<ReframingSession[]> {
-    return dbAvailable ? this.dbStorage.getReframingSessionsByUserId(userId) : this.memStorage.getReframingSessionsByUserId(userId);
+    return this.read("getReframingSessionsByUserId", userId);
+  }
+
+  async getReframingSessionsByJournalSessionId(journalSessionId: number): Promise<ReframingSession[]> {
+    return this.read("getReframingSessionsByJournalSessionId", journalSessionId);
+  }
+
+  async recordTokenUsage(usage: InsertTokenUsage): Promise<TokenUsage> {
+    return this.write("recordTokenUsage", usage);
+  }
+
+  async getTokensUsedSince(userId: number, since: Date): Promise<number> {
+    return this.read("getTokensUsedSince", userId, since);
+  }
+
+  async softDeleteUser(userId: number, deletionScheduledFor: Date): Promise<User | undefined> {
+    return this.write("softDeleteUser", userId, deletionScheduledFor);
+  }
+
+  async restoreUser(userId: number): Promise<User | undefined> {
+    return this.write("restoreUser", userId);
+  }
+
+  async getUsersDueForDeletion(now: Date): Promise<User[]> {
+    return this.read("getUsersDueForDeletion", now);
+  }
+
+  async hardDeleteUser(userId: number): Promise<void> {
+    return this.write("hardDeleteUser", userId);
+  }
+
+  async touchUser(userId: number, at: Date): Promise<void> {
+    return this.write("touchUser", userId, at);
+  }
+
+  async markInactivityWarningSent(userId: number, at: Date): Promise<void> {
+    return this.write("markInactivityWarningSent", userId, at);
+  }
+
+  async getInactiveUsers(lastActiveBefore: Date): Promise<User[]> {
+    return this.read("getInactiveUsers", lastActiveBefore);
+  }
+
+  async getExpiredJournalSessions(createdBefore: Date): Promise<JournalSession[]> {
+    return this.read("getExpiredJournalSessions", createdBefore);
+  }
+
+  async getAbandonedReframingSessions(createdBefore: Date): Promise<ReframingSession[]> {
+    return this.read("getAbandonedReframingSessions", createdBefore);
+  }
+
+  async getReducibleJournalSessions(): Promise<JournalSession[]> {
+    return this.read("getReducibleJournalSessions");
+  }
+
+  async deleteReframingSessions(sessionIds: number[]): Promise<number> {
+    return this.write("deleteReframingSessions", sessionIds);
+  }
+
+  async recordRetentionRun(run: InsertRetentionRun): Promise<RetentionRun> {
+    return this.write("recordRetentionRun", run);
+  }
+
+  async getRetentionRuns(limit: number): Promise<RetentionRun[]> {
+    return this.read("getRetentionRuns", limit);
+  }
+
+  async createCrisisEvent(event: InsertCrisisEvent): Promise<CrisisEvent> {
+    return this.write("createCrisisEvent", event);
+  }
+
+  async getCrisisEvent(id: number): Promise<CrisisEvent | undefined> {
+    return this.read("getCrisisEvent", id);
+  }
+
+  async getCrisisEvents(status?: string): Promise<CrisisEvent[]> {
+    return this.read("getCrisisEvents", status);
+  }
+
+  async updateCrisisEvent(id: number, updates: Partial<CrisisEvent>): Promise<CrisisEvent | undefined> {
+    return this.write("updateCrisisEvent", id, updates);
+  }
+
+  async createVisualization(visualization: InsertVisualization): Promise<Visualization> {
+    return this.write("createVisualization", visualization);
+  }
+
+  async getVisualization(id: number): Promise<Visualization | undefined> {
+    return this.read("getVisualization", id);
+  }
+
+  async getVisualizationsByUserId(userId: number): Promise<Visualization[]> {
+    return this.read("getVisualizationsByUserId", userId);
   }
 }
 
 export const storage = new DynamicStorage();
+
+// Initialize database connection; the server awaits this before wiring up auth
+export const storageReady = initializeDatabase().then(() => storage.replayLoadedWrites());
+
+/**
+ * Probe the database every intervalMs so the server fails over when it goes
+ * away and switches back (replaying queued writes) when it returns
+ */
+export function startStorageHealthProbe(intervalMs: number = HEALTH_PROBE_INTERVAL_MS) {
+  if (!process.env.DATABASE_URL) return;
+  setInterval(() => {
+    storage.probe().catch((error) => console.error("Storage health probe failed:", error));
+  }, intervalMs).unref();
+}
@@ -0,0 +1,19 @@
+import { RULES } from "../shared/rules";
+import { requiresPaidSubscription } from "../shared/rule-helpers";
+import type { User } from "@shared/schema";
+
+export type PremiumFeature = "visualization" | "unlimitedStorage" | "analytics";
+
+/**
+ * Developers can unlock premium features locally with PREMIUM_OVERRIDE=true
+ * when RULES.FEATURE_FLAGS.ENVIRONMENT_OVERRIDES.allowOverrideInDev is on
+ */
+function hasDevOverride(): boolean {
+  return process.env.NODE_ENV === "development"
+    && RULES.FEATURE_FLAGS.ENVIRONMENT_OVERRIDES.allowOverrideInDev
+    && process.env.PREMIUM_OVERRIDE === "true";
+}
+
+export function canUseFeature(user: User, feature: PremiumFeature): boolean {
+  return !requiresPaidSubscription(feature) || user.plan === "paid" || hasDevOverride();
+}
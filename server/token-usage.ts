@@ -0,0 +1,65 @@
+import { storage } from "./storage";
+import { RULES } from "../shared/rules";
+import { hasReachedDailyTokenLimit, isApproachingTokenLimit } from "../shared/rule-helpers";
+import type { AIUsage } from "./llm-provider";
+
+/**
+ * Daily token caps reset at midnight UTC
+ */
+export function startOfUtcDay(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export async function getTokensUsedToday(userId: number): Promise<number> {
+  return storage.getTokensUsedSince(userId, startOfUtcDay());
+}
+
+/**
+ * Add a completion's token counts to the user's ledger. Calls that never
+ * reached the model (crisis replies, blocked input, fallbacks) carry no usage.
+ */
+export async function recordAIUsage(userId: number, operation: string, usage?: AIUsage): Promise<void> {
+  if (!usage || !RULES.COST_CONTROLS.TOKEN_LIMITS.trackTokenUsagePerUser) return;
+
+  try {
+    await storage.recordTokenUsage({
+      userId,
+      operation,
+      model: usage.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+    });
+  } catch (error) {
+    // A ledger failure shouldn't cost the user the response they already got
+    console.error("Failed to record token usage:", error);
+  }
+}
+
+export interface TokenUsageSummary {
+  tokensUsed: number;
+  dailyLimit: number;
+  remaining: number;
+  percentUsed: number;
+  warningThresholdPercentage: number;
+  isApproachingLimit: boolean;
+  hasReachedLimit: boolean;
+  resetsAt: string;
+}
+
+export async function getTokenUsageSummary(userId: number): Promise<TokenUsageSummary> {
+  const limits = RULES.COST_CONTROLS.TOKEN_LIMITS;
+  const tokensUsed = await getTokensUsedToday(userId);
+  const resetsAt = new Date(startOfUtcDay().getTime() + 24 * 60 * 60 * 1000);
+
+  return {
+    tokensUsed,
+    dailyLimit: limits.dailyTokenCapPerUser,
+    remaining: Math.max(0, limits.dailyTokenCapPerUser - tokensUsed),
+    percentUsed: Math.min(100, Math.round((tokensUsed / limits.dailyTokenCapPerUser) * 100)),
+    warningThresholdPercentage: limits.warningThresholdPercentage,
+    isApproachingLimit: isApproachingTokenLimit(tokensUsed),
+    hasReachedLimit: hasReachedDailyTokenLimit(tokensUsed),
+    resetsAt: resetsAt.toISOString(),
+  };
+}
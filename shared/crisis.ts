@@ -0,0 +1,210 @@
+/**
+ * MINDFUL REFRAME - CRISIS DETECTION AND RESOURCES
+ *
+ * Matching for crisis language in journal entries and chat messages, and the
+ * helplines shown on the crisis resources screen
+ */
+
+import { RULES } from './rules';
+
+export type CrisisSeverity = 'high' | 'elevated';
+
+export interface CrisisMatch {
+  /** Which pattern matched, e.g. "killSelf" or "trigger:want to die" */
+  rule: string;
+  severity: CrisisSeverity;
+  /** The matched words, without the surrounding text */
+  phrase: string;
+}
+
+interface CrisisPattern {
+  rule: string;
+  severity: CrisisSeverity;
+  pattern: RegExp;
+}
+
+/**
+ * Explicit statements are high severity; paraphrases of hopelessness or being
+ * a burden are elevated. Both are escalated.
+ */
+const CRISIS_PATTERNS: CrisisPattern[] = [
+  { rule: 'suicide', severity: 'high', pattern: /\bsuicid(?:e|al)\b/i },
+  // "I killed myself studying" is an idiom; "if I killed myself" is not
+  { rule: 'killSelf', severity: 'high', pattern: /\bkill(?:ing)? myself\b|\bif i killed myself\b/i },
+  { rule: 'endLife', severity: 'high', pattern: /\b(?:end|ended|take|ending|taking) (?:my (?:own )?life|it all)\b/i },
+  { rule: 'wantToDie', severity: 'high', pattern: /\b(?:want|wanna|wanting|going|plan|planning|ready) to die\b/i },
+  { rule: 'wishDead', severity: 'high', pattern: /\bwish (?:i (?:was|were) dead|i could (?:just )?die|i'?d never been born)\b/i },
+  { rule: 'selfHarm', severity: 'high', pattern: /\b(?:hurt|harm|cut|hurting|harming|cutting) myself\b|\bself[- ]?harm/i },
+  { rule: 'overdose', severity: 'high', pattern: /\boverdos(?:e|ing)\b/i },
+  { rule: 'notWorthLiving', severity: 'elevated', pattern: /\b(?:life is|it's|its) not worth living\b|\bnot worth living\b/i },
+  { rule: 'betterOff', severity: 'elevated', pattern: /\b(?:better off (?:without me|dead|if i (?:was|were)n'?t (?:here|around))|(?:just )?a burden (?:to|on) everyone)\b/i },
+  { rule: 'noReasonToLive', severity: 'elevated', pattern: /\bno (?:reason|point) (?:to|in) (?:live|living|go on|going on|being alive|being here)\b/i },
+  { rule: 'cantGoOn', severity: 'elevated', pattern: /\bcan(?:'t|not|t) go on\b/i },
+  { rule: 'doubtWantToLive', severity: 'elevated', pattern: /\b(?:not sure|don'?t (?:think|know if)) (?:i )?(?:want to (?:live|keep living|be alive)|can keep going)\b/i },
+  { rule: 'dontWantToLive', severity: 'elevated', pattern: /\b(?:don'?t|do not) want to (?:live|exist|be alive|be here anymore|wake up)\b/i },
+];
+
+const NEGATION = "(?:not|never|no|don'?t|didn'?t|won'?t|wouldn'?t|isn'?t|wasn'?t|couldn'?t|do not|will not|would not|could not)";
+
+// A negation right before the match, optionally through "want to", "going to" and the like
+const GOVERNING_NEGATION = new RegExp(`\\b${NEGATION}\\s+(?:(?:ever|really|actually)\\s+)?(?:(?:(?:want|going|plan|planning|trying) to|wanna|gonna)\\s+)?$`);
+const ANY_NEGATION = new RegExp(`\\b${NEGATION}\\b`);
+
+// Sentence punctuation and conjunctions start a new clause ("I'm not okay and I want to die")
+const CLAUSE_BOUNDARY = /[.!?;,:]|\b(?:and|but|so|because|or|though|although|then)\b/;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[’‘]/g, "'");
+}
+
+/**
+ * A match is negated only when a negation directly governs it in the same
+ * clause ("I would never hurt myself", "I don't want to die", "I'm not
+ * suicidal"). A second negation earlier in the clause ("I never said I wasn't
+ * going to...") and anything less direct ("I don't think I want to live")
+ * keep the match: a missed crisis is worse than an extra escalation.
+ */
+function isNegated(text: string, index: number): boolean {
+  const clause = text.slice(0, index).split(CLAUSE_BOUNDARY).pop() || '';
+  const governing = clause.match(GOVERNING_NEGATION);
+  if (!governing || governing.index === undefined) return false;
+  return !ANY_NEGATION.test(clause.slice(0, governing.index));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The first non-negated crisis pattern in the text, checking the configured
+ * RULES.AI.CRISIS_DETECTION.triggerPhrases as well as the built-in paraphrases
+ */
+export function detectCrisis(input: string): CrisisMatch | null {
+  if (!RULES.AI.CRISIS_DETECTION.enabled || !input) return null;
+
+  const text = normalize(input);
+  const patterns: CrisisPattern[] = [
+    ...RULES.AI.CRISIS_DETECTION.triggerPhrases.map(phrase => ({
+      rule: `trigger:${phrase}`,
+      severity: 'high' as const,
+      pattern: new RegExp(`\\b${escapeRegExp(normalize(phrase))}\\b`, 'i'),
+    })),
+    ...CRISIS_PATTERNS,
+  ];
+
+  for (const { rule, severity, pattern } of patterns) {
+    const global = new RegExp(pattern.source, 'gi');
+    for (const match of Array.from(text.matchAll(global))) {
+      if (match.index !== undefined && !isNegated(text, match.index)) {
+        return { rule, severity, phrase: match[0] };
+      }
+    }
+  }
+  return null;
+}
+
+// ===========================
+// ☎️ HELPLINES
+// ===========================
+
+export interface Helpline {
+  name: string;
+  /** How to reach it, e.g. "Call or text 988" */
+  contact: string;
+  url?: string;
+  hours?: string;
+}
+
+export interface CrisisRegion {
+  /** ISO 3166 country code, or INTL for the international fallback */
+  code: string;
+  name: string;
+  emergencyNumber: string;
+  helplines: Helpline[];
+}
+
+export const INTERNATIONAL_RESOURCES: CrisisRegion = {
+  code: 'INTL',
+  name: 'Other countries',
+  emergencyNumber: 'your local emergency number',
+  helplines: [
+    {
+      name: 'Find A Helpline',
+      contact: 'Free, confidential helplines in over 130 countries',
+      url: 'https://findahelpline.com',
+    },
+  ],
+};
+
+export const CRISIS_REGIONS: CrisisRegion[] = [
+  {
+    code: 'US',
+    name: 'United States',
+    emergencyNumber: '911',
+    helplines: [
+      { name: '988 Suicide & Crisis Lifeline', contact: 'Call or text 988', url: 'https://988lifeline.org', hours: '24/7' },
+      { name: 'Crisis Text Line', contact: 'Text HOME to 741741', url: 'https://www.crisistextline.org', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'CA',
+    name: 'Canada',
+    emergencyNumber: '911',
+    helplines: [
+      { name: '9-8-8 Suicide Crisis Helpline', contact: 'Call or text 988', url: 'https://988.ca', hours: '24/7' },
+      { name: 'Kids Help Phone', contact: 'Call 1-800-668-6868 or text CONNECT to 686868', url: 'https://kidshelpphone.ca', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    emergencyNumber: '999',
+    helplines: [
+      { name: 'Samaritans', contact: 'Call 116 123', url: 'https://www.samaritans.org', hours: '24/7' },
+      { name: 'Shout', contact: 'Text SHOUT to 85258', url: 'https://giveusashout.org', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'IE',
+    name: 'Ireland',
+    emergencyNumber: '112 or 999',
+    helplines: [
+      { name: 'Samaritans Ireland', contact: 'Call 116 123', url: 'https://www.samaritans.org/ireland', hours: '24/7' },
+      { name: 'Text About It', contact: 'Text HELLO to 50808', url: 'https://textaboutit.ie', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'AU',
+    name: 'Australia',
+    emergencyNumber: '000',
+    helplines: [
+      { name: 'Lifeline', contact: 'Call 13 11 14 or text 0477 13 11 14', url: 'https://www.lifeline.org.au', hours: '24/7' },
+      { name: 'Beyond Blue', contact: 'Call 1300 22 4636', url: 'https://www.beyondblue.org.au', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'NZ',
+    name: 'New Zealand',
+    emergencyNumber: '111',
+    helplines: [
+      { name: '1737, Need to Talk?', contact: 'Call or text 1737', url: 'https://1737.org.nz', hours: '24/7' },
+      { name: 'Lifeline Aotearoa', contact: 'Call 0800 543 354', url: 'https://www.lifeline.org.nz', hours: '24/7' },
+    ],
+  },
+  {
+    code: 'IN',
+    name: 'India',
+    emergencyNumber: '112',
+    helplines: [
+      { name: 'Tele MANAS', contact: 'Call 14416 or 1-800-891-4416', url: 'https://telemanas.mohfw.gov.in', hours: '24/7' },
+    ],
+  },
+];
+
+/**
+ * Resources for a country code, falling back to the international list
+ */
+export function getCrisisRegion(code?: string | null): CrisisRegion {
+  const upper = code?.toUpperCase();
+  return CRISIS_REGIONS.find(region => region.code === upper) || INTERNATIONAL_RESOURCES;
+}
@@ -0,0 +1,204 @@
+/**
+ * MINDFUL REFRAME - COGNITIVE DISTORTION CATALOG
+ *
+ * The canonical distortion labels the analysis may use, with the reframing
+ * methods that tend to help with each one
+ */
+
+import { isFeatureEnabled } from './rule-helpers';
+
+export const REFRAMING_METHODS = [
+  'evidenceCheck',
+  'alternativePerspectives',
+  'balancedThinking',
+  'compassionateSelf',
+  'actionOriented',
+] as const;
+
+export type ReframingMethod = typeof REFRAMING_METHODS[number];
+
+export const REFRAMING_METHOD_NAMES: Record<ReframingMethod, string> = {
+  evidenceCheck: 'Evidence Check',
+  alternativePerspectives: 'Alternative Perspectives',
+  balancedThinking: 'Balanced Thinking',
+  compassionateSelf: 'Self-Compassion',
+  actionOriented: 'Action Focus',
+};
+
+export function reframingMethodName(method: string): string {
+  return REFRAMING_METHOD_NAMES[method as ReframingMethod] || method;
+}
+
+export interface CognitiveDistortion {
+  id: string;
+  name: string;
+  description: string;
+  examples: string[];
+  suggestedMethods: ReframingMethod[];
+  /** Other labels the model uses for the same pattern */
+  aliases: string[];
+}
+
+export const CORE_DISTORTIONS: CognitiveDistortion[] = [
+  {
+    id: 'all-or-nothing',
+    name: 'All-or-Nothing Thinking',
+    description: 'Seeing things in extremes, with no middle ground',
+    examples: ["If it isn't perfect, it's a failure.", 'I either ace this or I am useless.'],
+    suggestedMethods: ['balancedThinking', 'evidenceCheck'],
+    aliases: ['Black-and-White Thinking', 'Polarized Thinking', 'Dichotomous Thinking'],
+  },
+  {
+    id: 'overgeneralization',
+    name: 'Overgeneralization',
+    description: 'Making sweeping conclusions from a single event',
+    examples: ['I always mess things up.', 'Nobody ever listens to me.'],
+    suggestedMethods: ['evidenceCheck', 'balancedThinking'],
+    aliases: ['Overgeneralizing'],
+  },
+  {
+    id: 'mental-filter',
+    name: 'Mental Filtering',
+    description: 'Focusing only on the negatives and ignoring the positives',
+    examples: ['The whole day was ruined by that one comment.'],
+    suggestedMethods: ['balancedThinking', 'alternativePerspectives'],
+    aliases: ['Mental Filter', 'Filtering', 'Selective Abstraction'],
+  },
+  {
+    id: 'disqualifying-positive',
+    name: 'Disqualifying the Positive',
+    description: 'Rejecting compliments or successes as not counting',
+    examples: ['They only said that to be nice.', 'I just got lucky.'],
+    suggestedMethods: ['evidenceCheck', 'compassionateSelf'],
+    aliases: ['Discounting the Positive'],
+  },
+  {
+    id: 'jumping-to-conclusions',
+    name: 'Jumping to Conclusions',
+    description: 'Mind reading or fortune telling without the evidence to back it up',
+    examples: ["She didn't text back, so she must be angry with me.", "I'll definitely fail the interview."],
+    suggestedMethods: ['evidenceCheck', 'alternativePerspectives'],
+    aliases: ['Mind Reading', 'Fortune Telling'],
+  },
+  {
+    id: 'magnification',
+    name: 'Magnification/Minimization',
+    description: 'Catastrophizing the bad or downplaying the good',
+    examples: ['This mistake will end my career.', 'Finishing the project was no big deal.'],
+    suggestedMethods: ['evidenceCheck', 'actionOriented'],
+    aliases: ['Catastrophizing', 'Magnification', 'Minimization', 'Catastrophic Thinking'],
+  },
+  {
+    id: 'emotional-reasoning',
+    name: 'Emotional Reasoning',
+    description: 'Treating a feeling as proof that something is true',
+    examples: ['I feel like a burden, so I must be one.'],
+    suggestedMethods: ['evidenceCheck', 'alternativePerspectives'],
+    aliases: [],
+  },
+  {
+    id: 'should-statements',
+    name: 'Should Statements',
+    description: "Harsh rules about how you or others 'should' be",
+    examples: ['I should be able to handle this on my own.', 'I must never make mistakes.'],
+    suggestedMethods: ['compassionateSelf', 'balancedThinking'],
+    aliases: ['Shoulds', 'Musts'],
+  },
+  {
+    id: 'labeling',
+    name: 'Labeling',
+    description: 'Defining yourself or others by a single mistake',
+    examples: ["I'm such an idiot.", "I'm a failure."],
+    suggestedMethods: ['compassionateSelf', 'evidenceCheck'],
+    aliases: ['Mislabeling', 'Global Labeling'],
+  },
+  {
+    id: 'personalization',
+    name: 'Personalization',
+    description: 'Taking the blame for things outside your control',
+    examples: ["My friend is upset, it's probably my fault."],
+    suggestedMethods: ['actionOriented', 'alternativePerspectives'],
+    aliases: ['Self-Blame'],
+  },
+];
+
+/**
+ * Finer-grained categories used when advancedDistortionCategories is on
+ */
+export const ADVANCED_DISTORTIONS: CognitiveDistortion[] = [
+  {
+    id: 'catastrophizing',
+    name: 'Catastrophizing',
+    description: 'Expecting the worst possible outcome',
+    examples: ['If I say something wrong, everyone will hate me forever.'],
+    suggestedMethods: ['evidenceCheck', 'actionOriented'],
+    aliases: ['Catastrophic Thinking'],
+  },
+  {
+    id: 'mind-reading',
+    name: 'Mind Reading',
+    description: 'Assuming you know what others are thinking',
+    examples: ['They think I am incompetent.'],
+    suggestedMethods: ['evidenceCheck', 'alternativePerspectives'],
+    aliases: [],
+  },
+  {
+    id: 'fortune-telling',
+    name: 'Fortune Telling',
+    description: 'Predicting a negative future as if it were fact',
+    examples: ['This relationship is going to fail.'],
+    suggestedMethods: ['evidenceCheck', 'actionOriented'],
+    aliases: [],
+  },
+  {
+    id: 'blaming',
+    name: 'Blaming',
+    description: 'Holding others entirely responsible for your feelings',
+    examples: ['My boss is the reason I feel miserable.'],
+    suggestedMethods: ['actionOriented', 'alternativePerspectives'],
+    aliases: ['Other-Blame'],
+  },
+  {
+    id: 'comparison',
+    name: 'Unfair Comparison',
+    description: 'Measuring yourself against others in ways that always leave you short',
+    examples: ['Everyone my age has their life together except me.'],
+    suggestedMethods: ['compassionateSelf', 'balancedThinking'],
+    aliases: ['Comparing', 'Comparison'],
+  },
+  {
+    id: 'control-fallacy',
+    name: 'Control Fallacy',
+    description: 'Believing you control everything, or nothing at all',
+    examples: ["Nothing I do makes any difference."],
+    suggestedMethods: ['actionOriented', 'balancedThinking'],
+    aliases: ['Control Fallacies'],
+  },
+];
+
+/**
+ * The distortions the analysis may currently report
+ */
+export function getDistortionCatalog(): CognitiveDistortion[] {
+  return isFeatureEnabled('EXPERIMENTAL.advancedDistortionCategories')
+    ? [...CORE_DISTORTIONS, ...ADVANCED_DISTORTIONS]
+    : CORE_DISTORTIONS;
+}
+
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/**
+ * Map a label onto the active catalog by id, name or alias. Exact ids and
+ * names win over aliases, so "Catastrophizing" resolves to its own category
+ * when the advanced set is on and to Magnification/Minimization otherwise.
+ */
+export function matchDistortion(label: string): CognitiveDistortion | undefined {
+  const normalized = normalizeLabel(label);
+  if (!normalized) return undefined;
+
+  const catalog = getDistortionCatalog();
+  return catalog.find(d => normalizeLabel(d.id) === normalized || normalizeLabel(d.name) === normalized)
+    ?? catalog.find(d => d.aliases.some(alias => normalizeLabel(alias) === normalized));
+}
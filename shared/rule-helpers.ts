@@ -5,6 +5,7 @@
  */
 
 import { RULES } from './rules';
+import { detectCrisis } from './crisis';
 
 // ===========================
 // 🤖 AI USAGE HELPERS
@@ -47,7 +48,7 @@ export function getMaxTokensForOperation(operationType: string): number {
     'detectCognitiveDistortions': maxTokens,
     'summarizeJournalEntries': Math.floor(maxTokens * 0.5), // Summaries need fewer tokens
     'guideReframingProcess': maxTokens,
-    'generateVisualizationPrompts': Math.floor(maxTokens * 0.3)
+    'generateVisualizationPrompts': maxTokens // A title plus up to eight spoken steps
   };
   
   return operationLimits[operationType] || maxTokens;
@@ -74,15 +75,10 @@ export function getModelForTask(taskName: string): string {
 // ===========================
 
 /**
- * Check if input contains crisis indicators
+ * Check if input contains crisis indicators; see detectCrisis for the match details
  */
 export function isCrisisText(input: string): boolean {
-  if (!RULES.AI.CRISIS_DETECTION.enabled) return false;
-  
-  const triggers = RULES.AI.CRISIS_DETECTION.triggerPhrases;
-  const lowercaseInput = input.toLowerCase();
-  
-  return triggers.some(phrase => lowercaseInput.includes(phrase));
+  return detectCrisis(input) !== null;
 }
 
 /**
@@ -122,6 +118,62 @@ export function getCrisisResponse() {
   return RULES.AI.CRISIS_DETECTION.responseTemplate;
 }
 
+/**
+ * Language in a reply that falls under one of RULES.AI.PROHIBITED_OPERATIONS
+ */
+const PROHIBITED_OPERATION_PATTERNS: Record<string, RegExp[]> = {
+  makeMedicalDiagnosis: [
+    /\byou (?:probably |likely |clearly |might |may )?(?:have|suffer from|are suffering from|are showing signs of) (?:clinical |major |an? )?(?:depression|anxiety disorder|bipolar|ptsd|ocd|adhd|bpd|personality disorder|eating disorder|(?:mental|anxiety|mood|panic) disorder)/i,
+    /\b(?:sounds|seems) like (?:you have |a case of )?(?:clinical depression|bipolar|ptsd|ocd|adhd|bpd|an? (?:anxiety|mood|panic|personality|eating) disorder)/i,
+    // First-person diagnosing with an object ("I'd diagnose this as..."), not
+    // disclaimers like "I can't diagnose you" or "I won't diagnose anything"
+    /\bi(?:'d|'ll| would| will)?(?: probably| likely)? diagnose (?:you|this|it|that|what you)\b/i,
+    /\bi(?:'m| am) diagnosing (?:you|this|it|that)\b/i,
+    /\byou are (?:clinically depressed|bipolar|a narcissist)\b/i,
+  ],
+  provideClinicalAdvice: [
+    /\b(?:stop|start|increase|reduce|change|skip) (?:taking )?(?:your |any )?(?:medication|meds|antidepressants|pills|dosage|dose)\b/i,
+    /\b(?:take|try) (?:an? )?(?:antidepressant|ssri|benzodiazepine|sleeping pill)s?\b/i,
+  ],
+  // Telling the user to make a life decision ("you need to quit your job"),
+  // not supportive suggestions like "you need to be kind to yourself"
+  giveDirectiveAdvice: [
+    /\byou (?:must|need to|have to|ought to|should) (?:really |just |definitely )?(?:quit|resign|leave (?:him|her|them|your)|divorce|break up|dump|confront|cut (?:off|ties)|move out|end (?:it|things|the relationship|your relationship)|stop (?:seeing|talking to))\b/i,
+  ],
+  rolePlayAsTherapist: [
+    /\b(?:as your|i am your|i'm your) (?:therapist|counselor|counsellor|psychologist|psychiatrist|doctor)\b/i,
+  ],
+};
+
+function normalizePhrase(text: string): string {
+  return text.toLowerCase().replace(/[’‘]/g, "'").replace(/\.{2,}|…/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Check AI output against TONE.prohibited_phrases and the prohibited operations.
+ * Returns a reason for each problem found, e.g. "prohibitedPhrase: Just get over it"
+ * or "giveDirectiveAdvice", or an empty list when the text is safe.
+ */
+export function findResponseSafetyIssues(output: string): string[] {
+  if (!RULES.AI.SECURITY.validateResponseSafety || !output) return [];
+
+  const normalized = normalizePhrase(output);
+  const phraseIssues = RULES.AI.TONE.prohibited_phrases
+    .filter(phrase => normalized.includes(normalizePhrase(phrase)))
+    .map(phrase => `prohibitedPhrase: ${phrase}`);
+
+  // Questions are how the assistant is meant to guide ("What do you need to feel safe?"),
+  // so the operation patterns only apply to statements
+  const statements = output
+    .split(/(?<=[.!?])\s+/)
+    .filter(sentence => !sentence.trim().endsWith('?'))
+    .join(' ');
+  const operationIssues = RULES.AI.PROHIBITED_OPERATIONS
+    .filter(operation => (PROHIBITED_OPERATION_PATTERNS[operation] || []).some(pattern => pattern.test(statements)));
+
+  return [...phraseIssues, ...operationIssues];
+}
+
 // ===========================
 // 🚦 RATE LIMITING HELPERS
 // ===========================
@@ -268,6 +320,7 @@ export default {
   shouldBlockPromptInjection,
   sanitizeUserInput,
   getCrisisResponse,
+  findResponseSafetyIssues,
   hasReachedDailyTokenLimit,
   isApproachingTokenLimit,
   getRateLimit,
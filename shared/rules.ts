@@ -157,7 +157,7 @@ export const RULES = {
       gptCallsPerMinute: 5,
       journalEntriesPerHour: 3,
       reframeSessionsPerDay: 5,
-      maxConcurrentSessions: 1
+      maxConcurrentSessions: 1 // AI-backed requests a user may have running at once
     },
 
     // IP-based throttling (backup protection)
@@ -208,7 +208,8 @@ export const RULES = {
     PREMIUM_FEATURES: {
       visualizationGenerationRequiresPaid: true,
       unlimitedSessionStorageForPaid: true,
-      extendedAnalyticsForPaid: true
+      extendedAnalyticsForPaid: true,
+      freeAnalyticsWindowDays: 30 // History covered by insights without extended analytics
     }
   },
 
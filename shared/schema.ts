@@ -6,6 +6,14 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Set when the user asks to delete their account; hard deletion runs after deletionScheduledFor
+  deletedAt: timestamp("deleted_at"),
+  deletionScheduledFor: timestamp("deletion_scheduled_for"),
+  // Drives inactive-account retention; refreshed as the user makes requests
+  lastActiveAt: timestamp("last_active_at").defaultNow().notNull(),
+  inactivityWarningSentAt: timestamp("inactivity_warning_sent_at"),
+  // "free" or "paid"; gates RULES.STORAGE.PREMIUM_FEATURES
+  plan: text("plan").default("free").notNull(),
 });
 
 export const intakeResponses = pgTable("intake_responses", {
@@ -17,20 +25,37 @@ export const intakeResponses = pgTable("intake_responses", {
   question4: text("question4").notNull(),
   question5: text("question5").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
 });
 
 export const journalSessions = pgTable("journal_sessions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
-  journalEntry: text("journal_entry").notNull(),
-  detectedThoughts: text("detected_thoughts").array().notNull(),
-  cognitiveDistortions: text("cognitive_distortions").array().notNull(),
+  // Null once an unflagged session has been reduced to its metadata
+  journalEntry: text("journal_entry"),
+  beliefSummary: text("belief_summary"),
+  primaryDistortions: text("primary_distortions").array().notNull().default([]),
+  // Flagged sessions keep their full text and are exempt from the retention job
+  flaggedForFullStorage: boolean("flagged_for_full_storage").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  deletedAt: timestamp("deleted_at"),
+});
+
+// One row per thought the analysis picked out of a journal entry, in the order it was found
+export const detectedThoughts = pgTable("detected_thoughts", {
+  id: serial("id").primaryKey(),
+  journalSessionId: integer("journal_session_id").references(() => journalSessions.id).notNull(),
+  position: integer("position").notNull(),
+  thought: text("thought").notNull(),
+  distortion: text("distortion").notNull(),
+  explanation: text("explanation").default("").notNull(),
 });
 
 export const reframingSessions = pgTable("reframing_sessions", {
   id: serial("id").primaryKey(),
   journalSessionId: integer("journal_session_id").references(() => journalSessions.id).notNull(),
+  // Cleared if the thought is dropped when the session is reduced to metadata
+  detectedThoughtId: integer("detected_thought_id").references(() => detectedThoughts.id, { onDelete: "set null" }),
   userId: integer("user_id").references(() => users.id).notNull(),
   selectedThought: text("selected_thought").notNull(),
   distortionType: text("distortion_type").notNull(),
@@ -40,8 +65,75 @@ export const reframingSessions = pgTable("reframing_sessions", {
   isCompleted: boolean("is_completed").default(false).notNull(),
   turnCount: integer("turn_count").default(0).notNull(),
   maxTurns: integer("max_turns").default(12).notNull(),
+  // Self-reported 0-10 distress at the start and end of the session
+  distressScoreBefore: integer("distress_score_before"),
+  distressScoreAfter: integer("distress_score_after"),
+  // Rolling summary of the turns that no longer fit the model's context window,
+  // covering the first contextSummaryThrough chat history entries
+  contextSummary: text("context_summary"),
+  contextSummaryThrough: integer("context_summary_through").default(0).notNull(),
+  // Set when crisis language is detected; the chat stays closed until a reviewer resolves it
+  safetyMode: boolean("safety_mode").default(false).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   completedAt: timestamp("completed_at"),
+  deletedAt: timestamp("deleted_at"),
+});
+
+export const tokenUsage = pgTable("token_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  operation: text("operation").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").default(0).notNull(),
+  completionTokens: integer("completion_tokens").default(0).notNull(),
+  totalTokens: integer("total_tokens").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Crisis language detected in a journal entry or chat message, queued for human review.
+// Only the matched rule and phrase are kept, not the surrounding text.
+export const crisisEvents = pgTable("crisis_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  source: text("source").notNull(), // 'journal' or 'reframing'
+  journalSessionId: integer("journal_session_id").references(() => journalSessions.id, { onDelete: "set null" }),
+  reframingSessionId: integer("reframing_session_id").references(() => reframingSessions.id, { onDelete: "set null" }),
+  severity: text("severity").notNull(), // 'high' or 'elevated'
+  matchedRule: text("matched_rule").notNull(),
+  matchedPhrase: text("matched_phrase").notNull(),
+  status: text("status").default("pending").notNull(), // 'pending', 'acknowledged' or 'resolved'
+  reviewerNotifiedAt: timestamp("reviewer_notified_at"),
+  reviewedBy: text("reviewed_by"),
+  reviewNote: text("review_note"),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A guided visualization scripted from a completed reframing session, kept for replay
+export const visualizations = pgTable("visualizations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  reframingSessionId: integer("reframing_session_id").references(() => reframingSessions.id).notNull(),
+  title: text("title").notNull(),
+  reframedThought: text("reframed_thought").notNull(),
+  // JSON list of VisualizationStep
+  steps: text("steps").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"),
+});
+
+export const retentionRuns = pgTable("retention_runs", {
+  id: serial("id").primaryKey(),
+  dryRun: boolean("dry_run").notNull(),
+  trigger: text("trigger").notNull(),
+  journalSessionsDeleted: integer("journal_sessions_deleted").default(0).notNull(),
+  reframingSessionsDeleted: integer("reframing_sessions_deleted").default(0).notNull(),
+  accountsWarned: integer("accounts_warned").default(0).notNull(),
+  accountsDeleted: integer("accounts_deleted").default(0).notNull(),
+  // JSON list of the ids touched in each category
+  details: text("details").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").defaultNow().notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -52,17 +144,56 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const insertIntakeResponseSchema = createInsertSchema(intakeResponses).omit({
   id: true,
   createdAt: true,
+  deletedAt: true,
 });
 
 export const insertJournalSessionSchema = createInsertSchema(journalSessions).omit({
   id: true,
   createdAt: true,
+  deletedAt: true,
+});
+
+export const insertDetectedThoughtSchema = createInsertSchema(detectedThoughts).omit({
+  id: true,
 });
 
 export const insertReframingSessionSchema = createInsertSchema(reframingSessions).omit({
   id: true,
   createdAt: true,
   completedAt: true,
+  deletedAt: true,
+});
+
+/** Self-reported distress, 0 (none) to 10 (worst) */
+export const distressScoreSchema = z.number().int().min(0).max(10);
+
+export const insertTokenUsageSchema = createInsertSchema(tokenUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCrisisEventSchema = createInsertSchema(crisisEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertVisualizationSchema = createInsertSchema(visualizations).omit({
+  id: true,
+  createdAt: true,
+  deletedAt: true,
+});
+
+/** One passage of a guided visualization, followed by a pause to sit with it */
+export const visualizationStepSchema = z.object({
+  text: z.string().min(1),
+  pauseSeconds: z.number().int().min(0).max(120),
+});
+
+export const CRISIS_REVIEW_STATUSES = ["pending", "acknowledged", "resolved"] as const;
+
+export const insertRetentionRunSchema = createInsertSchema(retentionRuns).omit({
+  id: true,
+  finishedAt: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -71,5 +202,16 @@ export type IntakeResponse = typeof intakeResponses.$inferSelect;
 export type InsertIntakeResponse = z.infer<typeof insertIntakeResponseSchema>;
 export type JournalSession = typeof journalSessions.$inferSelect;
 export type InsertJournalSession = z.infer<typeof insertJournalSessionSchema>;
+export type DetectedThoughtRecord = typeof detectedThoughts.$inferSelect;
+export type InsertDetectedThought = z.infer<typeof insertDetectedThoughtSchema>;
 export type ReframingSession = typeof reframingSessions.$inferSelect;
 export type InsertReframingSession = z.infer<typeof insertReframingSessionSchema>;
+export type TokenUsage = typeof tokenUsage.$inferSelect;
+export type InsertTokenUsage = z.infer<typeof insertTokenUsageSchema>;
+export type CrisisEvent = typeof crisisEvents.$inferSelect;
+export type InsertCrisisEvent = z.infer<typeof insertCrisisEventSchema>;
+export type Visualization = typeof visualizations.$inferSelect;
+export type InsertVisualization = z.infer<typeof insertVisualizationSchema>;
+export type VisualizationStep = z.infer<typeof visualizationStepSchema>;
+export type RetentionRun = typeof retentionRuns.$inferSelect;
+export type InsertRetentionRun = z.infer<typeof insertRetentionRunSchema>;